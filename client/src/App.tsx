@@ -7,7 +7,12 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 // Pages
 import Home from "@/pages/Home";
 import MagicFormula from "@/pages/MagicFormula";
+import Graham from "@/pages/Graham";
+import Bazin from "@/pages/Bazin";
 import StockDetail from "@/pages/StockDetail";
+import DataFreshness from "@/pages/DataFreshness";
+import Sectors from "@/pages/Sectors";
+import SectorDetail from "@/pages/SectorDetail";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -15,7 +20,12 @@ function Router() {
     <Switch>
       <Route path="/" component={Home} />
       <Route path="/magic-formula" component={MagicFormula} />
+      <Route path="/graham" component={Graham} />
+      <Route path="/bazin" component={Bazin} />
       <Route path="/stocks/:ticker" component={StockDetail} />
+      <Route path="/sectors" component={Sectors} />
+      <Route path="/sectors/:sector" component={SectorDetail} />
+      <Route path="/freshness" component={DataFreshness} />
       <Route component={NotFound} />
     </Switch>
   );
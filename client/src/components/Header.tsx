@@ -1,5 +1,5 @@
 import { Link, useLocation } from "wouter";
-import { TrendingUp, BarChart3, Search } from "lucide-react";
+import { TrendingUp, BarChart3, Search, History, PieChart, Scale, Coins } from "lucide-react";
 import { clsx } from "clsx";
 import { Input } from "@/components/ui/input";
 
@@ -9,6 +9,10 @@ export function Header({ onSearch }: { onSearch?: (val: string) => void }) {
   const navItems = [
     { href: "/", label: "Screener", icon: BarChart3 },
     { href: "/magic-formula", label: "Magic Formula", icon: TrendingUp },
+    { href: "/graham", label: "Graham", icon: Scale },
+    { href: "/bazin", label: "Bazin", icon: Coins },
+    { href: "/sectors", label: "Sectors", icon: PieChart },
+    { href: "/freshness", label: "Data Freshness", icon: History },
   ];
 
   return (
@@ -27,7 +31,7 @@ export function Header({ onSearch }: { onSearch?: (val: string) => void }) {
         {/* Navigation */}
         <nav className="flex items-center gap-1 mr-auto">
           {navItems.map((item) => {
-            const isActive = location === item.href;
+            const isActive = item.href === "/" ? location === "/" : location.startsWith(item.href);
             const Icon = item.icon;
             return (
               <Link 
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { clsx } from "clsx";
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import type { PeerMetric } from "@shared/schema";
+import { usePeers } from "@/hooks/use-stocks";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Users } from "lucide-react";
+
+const PEER_METRICS: { key: PeerMetric; label: string; format: (value: number) => string }[] = [
+  { key: "pl", label: "P/L", format: (v) => v.toFixed(1) },
+  { key: "pvp", label: "P/VP", format: (v) => v.toFixed(2) },
+  { key: "roe", label: "ROE", format: (v) => `${v.toFixed(1)}%` },
+  { key: "roic", label: "ROIC", format: (v) => `${v.toFixed(1)}%` },
+  { key: "divYield", label: "Yield", format: (v) => `${v.toFixed(1)}%` },
+];
+
+interface PeerComparisonProps {
+  ticker: string;
+}
+
+export function PeerComparison({ ticker }: PeerComparisonProps) {
+  const { data, isLoading } = usePeers(ticker);
+  const [chartMetric, setChartMetric] = useState<PeerMetric>("pl");
+
+  if (isLoading) {
+    return <Skeleton className="h-80 w-full rounded-2xl mb-12" />;
+  }
+  if (!data) return null;
+
+  const metric = PEER_METRICS.find((m) => m.key === chartMetric)!;
+  const chartData = data.peers
+    .filter((peer) => peer.latest?.[chartMetric] != null)
+    .map((peer) => ({ ticker: peer.ticker, value: peer.latest![chartMetric] as number }));
+
+  return (
+    <div className="bg-card rounded-2xl border border-border p-6 shadow-sm mb-12">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-lg font-semibold font-display">Peers</h3>
+          <p className="text-xs text-muted-foreground">
+            {data.peers.length} {data.peers.length === 1 ? "stock" : "stocks"} in {data.groupBy} {data.group}
+          </p>
+        </div>
+        <Users className="w-5 h-5 text-primary" />
+      </div>
+
+      {data.peers.length <= 1 ? (
+        <p className="text-sm text-muted-foreground">
+          No other stock shares this {data.groupBy} yet. Run "Fetch Sectors" on the screener to classify more stocks.
+        </p>
+      ) : (
+        <>
+          {/* Rank in each metric */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+            {PEER_METRICS.map((m) => {
+              const rank = data.ranks[m.key];
+              return (
+                <div key={m.key} className="border-b border-border/50 pb-2">
+                  <div className="text-xs font-medium text-muted-foreground uppercase tracking-wider">{m.label} rank</div>
+                  <div className="font-mono font-semibold text-foreground mt-1">
+                    {rank ? <>#{rank.rank} <span className="text-muted-foreground font-normal">of {rank.of}</span></> : "-"}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex justify-end gap-1 mb-2">
+            {PEER_METRICS.map((m) => (
+              <Button
+                key={m.key}
+                variant={chartMetric === m.key ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setChartMetric(m.key)}
+                className="h-7 px-2 text-xs"
+              >
+                {m.label}
+              </Button>
+            ))}
+          </div>
+          <div className="h-[200px] w-full mb-6">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="var(--border)" vertical={false} />
+                <XAxis dataKey="ticker" stroke="var(--muted-foreground)" fontSize={12} tickLine={false} axisLine={false} />
+                <YAxis stroke="var(--muted-foreground)" fontSize={12} tickLine={false} axisLine={false} width={50} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: 'var(--background)', borderColor: 'var(--border)', borderRadius: '8px' }}
+                  formatter={(v: number) => [metric.format(v), metric.label]}
+                />
+                <Bar dataKey="value" radius={[4, 4, 0, 0]}>
+                  {chartData.map((entry) => (
+                    <Cell
+                      key={entry.ticker}
+                      fill={entry.ticker === ticker ? "var(--primary)" : "var(--muted-foreground)"}
+                      fillOpacity={entry.ticker === ticker ? 1 : 0.35}
+                    />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-muted/30 border-b border-border text-muted-foreground font-medium uppercase tracking-wider text-xs">
+                <tr>
+                  <th className="px-4 py-3">Ticker</th>
+                  {PEER_METRICS.map((m) => (
+                    <th key={m.key} className="px-4 py-3">{m.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border/50">
+                {data.peers.map((peer) => (
+                  <tr key={peer.ticker} className={clsx(peer.ticker === ticker && "bg-primary/5")}>
+                    <td className="px-4 py-3">
+                      <Link href={`/stocks/${peer.ticker}`} className="font-bold font-mono text-foreground hover:text-primary">
+                        {peer.ticker}
+                      </Link>
+                    </td>
+                    {PEER_METRICS.map((m) => {
+                      const value = peer.latest?.[m.key];
+                      return (
+                        <td key={m.key} className="px-4 py-3 font-mono">{value == null ? "-" : m.format(value)}</td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { clsx } from "clsx";
+import { format } from "date-fns";
+import type { PiotroskiCriterion, PiotroskiScore } from "@shared/schema";
+import { CheckCircle2, XCircle, MinusCircle } from "lucide-react";
+
+const CRITERIA: { key: PiotroskiCriterion; label: string; group: string }[] = [
+  { key: "roa", label: "Positive return on assets", group: "Profitability" },
+  { key: "operatingCashFlow", label: "Positive operating cash flow", group: "Profitability" },
+  { key: "roaChange", label: "Return on assets improved", group: "Profitability" },
+  { key: "accruals", label: "Cash flow above net income", group: "Profitability" },
+  { key: "leverageChange", label: "Debt / assets decreased", group: "Leverage & liquidity" },
+  { key: "currentRatioChange", label: "Current ratio improved", group: "Leverage & liquidity" },
+  { key: "noDilution", label: "No new shares issued", group: "Leverage & liquidity" },
+  { key: "grossMarginChange", label: "Gross margin improved", group: "Efficiency" },
+  { key: "assetTurnoverChange", label: "Asset turnover improved", group: "Efficiency" },
+];
+
+interface PiotroskiCardProps {
+  fScore: PiotroskiScore | null;
+}
+
+export function PiotroskiCard({ fScore }: PiotroskiCardProps) {
+  return (
+    <div className="bg-card rounded-2xl border border-border p-6 shadow-sm mb-12">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-lg font-semibold font-display">Piotroski F-Score</h3>
+          <p className="text-xs text-muted-foreground">
+            {fScore
+              ? fScore.comparedTo
+                ? `${format(new Date(fScore.date), "MMM d, yyyy")} compared with ${format(new Date(fScore.comparedTo), "MMM d, yyyy")}`
+                : `${format(new Date(fScore.date), "MMM d, yyyy")}; no balance sheet a year older to compare with yet`
+              : "Use \"Fetch Complete Details\" to load the balance sheet"}
+          </p>
+        </div>
+        {fScore && (
+          <div className="text-right">
+            <span className={clsx(
+              "text-3xl font-bold font-mono",
+              fScore.score >= 6 ? "text-emerald-600" : fScore.score <= 2 ? "text-red-600" : "text-foreground"
+            )}>
+              {fScore.score}
+            </span>
+            <span className="text-muted-foreground font-mono">/{fScore.evaluated}</span>
+            <p className="text-[10px] text-muted-foreground">{fScore.evaluated} of 9 criteria evaluated</p>
+          </div>
+        )}
+      </div>
+
+      {fScore && (
+        <>
+          <ul className="grid md:grid-cols-3 gap-x-6 gap-y-3">
+            {CRITERIA.map((criterion) => {
+              const passed = fScore.criteria[criterion.key];
+              const Icon = passed === null ? MinusCircle : passed ? CheckCircle2 : XCircle;
+              return (
+                <li key={criterion.key} className="flex items-start gap-2 border-b border-border/50 pb-2">
+                  <Icon className={clsx(
+                    "w-4 h-4 mt-0.5 shrink-0",
+                    passed === null ? "text-muted-foreground/50" : passed ? "text-emerald-500" : "text-red-500"
+                  )} />
+                  <div>
+                    <div className={clsx("text-sm", passed === null && "text-muted-foreground")}>{criterion.label}</div>
+                    <div className="text-[10px] uppercase tracking-wider text-muted-foreground">{criterion.group}</div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+          <p className="text-xs text-muted-foreground mt-4">
+            fundamentus.com.br publishes no cash flow statement, so the two cash flow criteria are never evaluated.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,36 @@
+import { useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
-import { FilterX } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ChevronDown, FilterX, Plus, X } from "lucide-react";
+import { formatBRL } from "@/lib/utils";
+import { useSectors } from "@/hooks/use-stocks";
+import { EXTRA_METRICS } from "@/lib/extra-metrics";
+import { piotroskiMaxScore, type FundamentalMetricKey, type MetricBounds } from "@shared/schema";
 
 interface FilterValues {
   maxPl: number;
   minRoe: number;
   maxPvp: number;
   minDivYield: number;
+  minLiquidity: number;
+  minFScore: number;
   excludeStateOwned: boolean;
+  sector: string[];
+  min: MetricBounds;
+  max: MetricBounds;
 }
 
 interface SidebarFiltersProps {
@@ -21,10 +40,40 @@ interface SidebarFiltersProps {
 }
 
 export function SidebarFilters({ values, onChange, onReset }: SidebarFiltersProps) {
-  const handleChange = (key: keyof FilterValues, value: number | boolean) => {
+  const { data: sectors } = useSectors();
+  // Metrics with bound inputs shown, including ones whose bounds are still empty
+  const [boundedMetrics, setBoundedMetrics] = useState<FundamentalMetricKey[]>(() =>
+    Array.from(new Set([...Object.keys(values.min), ...Object.keys(values.max)] as FundamentalMetricKey[]))
+  );
+
+  const handleChange = (key: keyof FilterValues, value: number | boolean | string[] | MetricBounds) => {
     onChange({ ...values, [key]: value });
   };
 
+  const setBound = (side: "min" | "max", metric: FundamentalMetricKey, raw: string) => {
+    const bounds = { ...values[side] };
+    const bound = raw.trim() === "" ? NaN : Number(raw);
+    if (Number.isFinite(bound)) bounds[metric] = bound;
+    else delete bounds[metric];
+    handleChange(side, bounds);
+  };
+
+  const removeBound = (metric: FundamentalMetricKey) => {
+    const { [metric]: _min, ...min } = values.min;
+    const { [metric]: _max, ...max } = values.max;
+    onChange({ ...values, min, max });
+    setBoundedMetrics((prev) => prev.filter((m) => m !== metric));
+  };
+
+  const handleReset = () => {
+    setBoundedMetrics([]);
+    onReset();
+  };
+
+  const toggleSector = (sector: string, checked: boolean) => {
+    handleChange("sector", checked ? [...values.sector, sector] : values.sector.filter((s) => s !== sector));
+  };
+
   return (
     <div className="space-y-6 lg:w-72 flex-shrink-0">
       <div className="flex items-center justify-between">
@@ -32,7 +81,7 @@ export function SidebarFilters({ values, onChange, onReset }: SidebarFiltersProp
         <Button 
           variant="ghost" 
           size="sm" 
-          onClick={onReset}
+          onClick={handleReset}
           className="h-8 px-2 text-muted-foreground hover:text-foreground"
         >
           <FilterX className="w-3.5 h-3.5 mr-1.5" />
@@ -41,6 +90,38 @@ export function SidebarFilters({ values, onChange, onReset }: SidebarFiltersProp
       </div>
 
       <div className="space-y-6">
+        {/* Sector Filter */}
+        <div className="space-y-3">
+          <Label className="text-sm font-medium">Sectors</Label>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="w-full justify-between rounded-lg text-xs font-normal">
+                <span className="truncate">
+                  {values.sector.length === 0
+                    ? "All sectors"
+                    : values.sector.length === 1 ? values.sector[0] : `${values.sector.length} sectors`}
+                </span>
+                <ChevronDown className="w-3.5 h-3.5 ml-1.5 text-muted-foreground" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="w-64 max-h-80 overflow-y-auto">
+              <DropdownMenuLabel>Sectors</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {sectors?.map((s) => (
+                <DropdownMenuCheckboxItem
+                  key={s.sector}
+                  checked={values.sector.includes(s.sector)}
+                  onCheckedChange={(checked) => toggleSector(s.sector, checked)}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  <span className="flex-1 truncate">{s.sector}</span>
+                  <span className="ml-2 text-xs font-mono text-muted-foreground">{s.count}</span>
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+
         {/* P/L Filter */}
         <div className="space-y-3">
           <div className="flex justify-between items-center">
@@ -113,6 +194,109 @@ export function SidebarFilters({ values, onChange, onReset }: SidebarFiltersProp
           />
         </div>
 
+        {/* Liquidity Filter */}
+        <div className="space-y-3">
+          <div className="flex justify-between items-center">
+            <Label className="text-sm font-medium">Min Liquidity / day</Label>
+            <span className="text-xs font-mono bg-muted px-2 py-0.5 rounded text-muted-foreground">
+              {formatBRL(values.minLiquidity, true)}
+            </span>
+          </div>
+          <Slider
+            value={[values.minLiquidity]}
+            min={0}
+            max={10_000_000}
+            step={100_000}
+            onValueChange={([val]) => handleChange("minLiquidity", val)}
+            className="py-2"
+          />
+        </div>
+
+        {/* Piotroski F-Score Filter */}
+        <div className="space-y-3">
+          <div className="flex justify-between items-center">
+            <Label className="text-sm font-medium">Min F-Score</Label>
+            <span className="text-xs font-mono bg-muted px-2 py-0.5 rounded text-muted-foreground">
+              {values.minFScore === 0 ? "Any" : `${values.minFScore}/${piotroskiMaxScore}`}
+            </span>
+          </div>
+          <Slider
+            value={[values.minFScore]}
+            min={0}
+            max={piotroskiMaxScore}
+            step={1}
+            onValueChange={([val]) => handleChange("minFScore", val)}
+            className="py-2"
+          />
+          {values.minFScore > 0 && (
+            <p className="text-[10px] text-muted-foreground">Only stocks with complete details fetched have a score</p>
+          )}
+        </div>
+
+        {/* Bounds on the extra metrics */}
+        <div className="space-y-3">
+          <div className="flex justify-between items-center">
+            <Label className="text-sm font-medium">More Metrics</Label>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs text-muted-foreground hover:text-foreground"
+                  disabled={boundedMetrics.length === EXTRA_METRICS.length}
+                >
+                  <Plus className="w-3.5 h-3.5 mr-1" />
+                  Add
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-48 max-h-80 overflow-y-auto">
+                <DropdownMenuLabel>Bound a metric</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {EXTRA_METRICS.filter((metric) => !boundedMetrics.includes(metric.key)).map((metric) => (
+                  <DropdownMenuItem
+                    key={metric.key}
+                    onSelect={() => setBoundedMetrics((prev) => [...prev, metric.key])}
+                  >
+                    {metric.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+          {EXTRA_METRICS.filter((metric) => boundedMetrics.includes(metric.key)).map((metric) => (
+            <div key={metric.key} className="space-y-1.5">
+              <div className="flex justify-between items-center">
+                <span className="text-xs text-muted-foreground">{metric.label}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-5 w-5 text-muted-foreground hover:text-foreground"
+                  onClick={() => removeBound(metric.key)}
+                  aria-label={`Remove ${metric.label} bounds`}
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  placeholder="Min"
+                  value={values.min[metric.key] ?? ""}
+                  onChange={(e) => setBound("min", metric.key, e.target.value)}
+                  className="h-8 text-xs font-mono"
+                />
+                <Input
+                  type="number"
+                  placeholder="Max"
+                  value={values.max[metric.key] ?? ""}
+                  onChange={(e) => setBound("max", metric.key, e.target.value)}
+                  className="h-8 text-xs font-mono"
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+
         {/* State Owned Toggle */}
         <div className="flex items-center justify-between pt-2 border-t border-border/50">
           <div className="space-y-0.5">
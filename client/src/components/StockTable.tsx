@@ -1,21 +1,41 @@
 import { useState, useMemo } from "react";
 import { Link } from "wouter";
-import { ArrowRight, Building2, TrendingUp, ArrowUpDown, ArrowUp, ArrowDown } from "lucide-react";
+import { ArrowRight, Building2, TrendingUp, ArrowUpDown, ArrowUp, ArrowDown, Columns3 } from "lucide-react";
 import { clsx } from "clsx";
-import type { StockWithLatestFundamental } from "@shared/schema";
+import type { StockWithLatestFundamental, FundamentalMetricKey } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { EXTRA_METRICS } from "@/lib/extra-metrics";
 
 interface StockTableProps {
   stocks: StockWithLatestFundamental[];
   isLoading: boolean;
   highlightStocks?: string[];
+  showGraham?: boolean; // Adds the Graham number and upside columns
+  showBazin?: boolean;  // Adds the Bazin ceiling price and upside columns
 }
 
-type SortKey = 'ticker' | 'pl' | 'roe' | 'pvp' | 'divYield' | 'ebitEv' | 'roic' | 'magicRank';
+type SortKey = 'ticker' | 'magicRank' | 'grahamValue' | 'grahamUpside' | 'bazinCeiling' | 'bazinUpside' | FundamentalMetricKey;
 type SortDirection = 'asc' | 'desc' | null;
 
-export function StockTable({ stocks, isLoading, highlightStocks = [] }: StockTableProps) {
+export function StockTable({ stocks, isLoading, highlightStocks = [], showGraham = false, showBazin = false }: StockTableProps) {
   const [sortKey, setSortKey] = useState<SortKey | null>(null);
   const [sortDirection, setSortDirection] = useState<SortDirection>(null);
+  const [extraColumns, setExtraColumns] = useState<FundamentalMetricKey[]>([]);
+
+  const visibleExtraColumns = EXTRA_METRICS.filter((col) => extraColumns.includes(col.key));
+
+  const toggleExtraColumn = (key: FundamentalMetricKey, checked: boolean) => {
+    setExtraColumns((prev) => checked ? [...prev, key] : prev.filter((k) => k !== key));
+  };
 
   const sortedStocks = useMemo(() => {
     if (!sortKey || !sortDirection) return stocks;
@@ -28,11 +48,23 @@ export function StockTable({ stocks, isLoading, highlightStocks = [] }: StockTab
         aValue = a.ticker;
         bValue = b.ticker;
       } else if (sortKey === 'magicRank') {
-        aValue = (a as any).magicRank ?? null;
-        bValue = (b as any).magicRank ?? null;
+        aValue = a.magicRank ?? null;
+        bValue = b.magicRank ?? null;
+      } else if (sortKey === 'grahamValue') {
+        aValue = a.graham?.fairValue ?? null;
+        bValue = b.graham?.fairValue ?? null;
+      } else if (sortKey === 'grahamUpside') {
+        aValue = a.graham?.upside ?? null;
+        bValue = b.graham?.upside ?? null;
+      } else if (sortKey === 'bazinCeiling') {
+        aValue = a.bazin?.ceilingPrice ?? null;
+        bValue = b.bazin?.ceilingPrice ?? null;
+      } else if (sortKey === 'bazinUpside') {
+        aValue = a.bazin?.upside ?? null;
+        bValue = b.bazin?.upside ?? null;
       } else {
-        aValue = (a.latest as any)?.[sortKey] ?? null;
-        bValue = (b.latest as any)?.[sortKey] ?? null;
+        aValue = a.latest?.[sortKey] ?? null;
+        bValue = b.latest?.[sortKey] ?? null;
       }
 
       // Handle null values - push them to the end
@@ -101,164 +133,324 @@ export function StockTable({ stocks, isLoading, highlightStocks = [] }: StockTab
   }
 
   return (
-    <div className="w-full overflow-hidden bg-card border border-border rounded-xl shadow-sm">
-      <div className="overflow-x-auto">
-        <table className="w-full text-left text-sm">
-          <thead className="bg-muted/30 border-b border-border text-muted-foreground font-medium uppercase tracking-wider text-xs">
-            <tr>
-              <th 
-                className="px-6 py-4 cursor-pointer hover:bg-muted/50 transition-colors group"
-                onClick={() => handleSort('magicRank')}
-              >
-                <div className="flex items-center">
-                  MF Rank
-                  <SortIcon columnKey="magicRank" />
-                </div>
-              </th>
-              <th 
-                className="px-6 py-4 cursor-pointer hover:bg-muted/50 transition-colors group"
-                onClick={() => handleSort('ticker')}
-              >
-                <div className="flex items-center">
-                  Ticker
-                  <SortIcon columnKey="ticker" />
-                </div>
-              </th>
-              <th 
-                className="px-6 py-4 cursor-pointer hover:bg-muted/50 transition-colors group"
-                onClick={() => handleSort('pl')}
-              >
-                <div className="flex items-center">
-                  P/L
-                  <SortIcon columnKey="pl" />
-                </div>
-              </th>
-              <th 
-                className="px-6 py-4 cursor-pointer hover:bg-muted/50 transition-colors group"
-                onClick={() => handleSort('roe')}
+    <div className="w-full space-y-2">
+      <div className="flex justify-end">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="rounded-lg text-xs">
+              <Columns3 className="w-3.5 h-3.5 mr-1.5" />
+              Columns
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-52">
+            <DropdownMenuLabel>Extra metrics</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {EXTRA_METRICS.map((col) => (
+              <DropdownMenuCheckboxItem
+                key={col.key}
+                checked={extraColumns.includes(col.key)}
+                onCheckedChange={(checked) => toggleExtraColumn(col.key, checked)}
+                onSelect={(e) => e.preventDefault()}
               >
-                <div className="flex items-center">
-                  ROE
-                  <SortIcon columnKey="roe" />
-                </div>
-              </th>
-              <th 
-                className="px-6 py-4 cursor-pointer hover:bg-muted/50 transition-colors group"
-                onClick={() => handleSort('pvp')}
-              >
-                <div className="flex items-center">
-                  P/VP
-                  <SortIcon columnKey="pvp" />
-                </div>
-              </th>
-              <th 
-                className="px-6 py-4 cursor-pointer hover:bg-muted/50 transition-colors group"
-                onClick={() => handleSort('divYield')}
-              >
-                <div className="flex items-center">
-                  Div Yield
-                  <SortIcon columnKey="divYield" />
-                </div>
-              </th>
-              <th 
-                className="px-6 py-4 hidden md:table-cell cursor-pointer hover:bg-muted/50 transition-colors group"
-                onClick={() => handleSort('ebitEv')}
-              >
-                <div className="flex items-center">
-                  EBIT/EV
-                  <SortIcon columnKey="ebitEv" />
-                </div>
-              </th>
-              <th 
-                className="px-6 py-4 hidden md:table-cell cursor-pointer hover:bg-muted/50 transition-colors group"
-                onClick={() => handleSort('roic')}
-              >
-                <div className="flex items-center">
-                  ROIC
-                  <SortIcon columnKey="roic" />
-                </div>
-              </th>
-              <th className="px-6 py-4 text-right">Action</th>
-            </tr>
-          </thead>
-          <tbody className="divide-y divide-border/50">
-            {sortedStocks.map((stock) => {
-              const fundamentals = stock.latest;
-              const hasMagicFormula = fundamentals?.ebitEv != null && fundamentals?.roic != null;
-              const isHighlighted = highlightStocks.includes(stock.ticker);
-              const magicRank = (stock as any).magicRank;
-
-              return (
-                <tr 
-                  key={stock.ticker}
-                  className={clsx(
-                    "group hover:bg-muted/20 transition-colors duration-150",
-                    isHighlighted && "bg-primary/10 border-l-4 border-l-primary"
-                  )}
+                {col.label}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+      <div className="w-full overflow-hidden bg-card border border-border rounded-xl shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-muted/30 border-b border-border text-muted-foreground font-medium uppercase tracking-wider text-xs">
+              <tr>
+                <th 
+                  className="px-6 py-4 cursor-pointer hover:bg-muted/50 transition-colors group"
+                  onClick={() => handleSort('magicRank')}
+                >
+                  <div className="flex items-center">
+                    MF Rank
+                    <SortIcon columnKey="magicRank" />
+                  </div>
+                </th>
+                <th 
+                  className="px-6 py-4 cursor-pointer hover:bg-muted/50 transition-colors group"
+                  onClick={() => handleSort('ticker')}
+                >
+                  <div className="flex items-center">
+                    Ticker
+                    <SortIcon columnKey="ticker" />
+                  </div>
+                </th>
+                <th 
+                  className="px-6 py-4 cursor-pointer hover:bg-muted/50 transition-colors group"
+                  onClick={() => handleSort('pl')}
+                >
+                  <div className="flex items-center">
+                    P/L
+                    <SortIcon columnKey="pl" />
+                  </div>
+                </th>
+                <th 
+                  className="px-6 py-4 cursor-pointer hover:bg-muted/50 transition-colors group"
+                  onClick={() => handleSort('roe')}
+                >
+                  <div className="flex items-center">
+                    ROE
+                    <SortIcon columnKey="roe" />
+                  </div>
+                </th>
+                <th 
+                  className="px-6 py-4 cursor-pointer hover:bg-muted/50 transition-colors group"
+                  onClick={() => handleSort('pvp')}
+                >
+                  <div className="flex items-center">
+                    P/VP
+                    <SortIcon columnKey="pvp" />
+                  </div>
+                </th>
+                <th 
+                  className="px-6 py-4 cursor-pointer hover:bg-muted/50 transition-colors group"
+                  onClick={() => handleSort('divYield')}
                 >
-                  <td className="px-6 py-4 font-mono text-sm">
-                    {magicRank ? (
-                      <span className={clsx(
-                        "inline-flex items-center justify-center w-10 h-10 rounded-lg font-bold",
-                        magicRank <= 10 ? "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300" :
-                        magicRank <= 30 ? "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300" :
-                        "bg-muted/50 text-muted-foreground"
-                      )}>
-                        {magicRank}
-                      </span>
-                    ) : (
-                      <span className="text-muted-foreground">-</span>
+                  <div className="flex items-center">
+                    Div Yield
+                    <SortIcon columnKey="divYield" />
+                  </div>
+                </th>
+                <th 
+                  className="px-6 py-4 hidden md:table-cell cursor-pointer hover:bg-muted/50 transition-colors group"
+                  onClick={() => handleSort('ebitEv')}
+                >
+                  <div className="flex items-center">
+                    EBIT/EV
+                    <SortIcon columnKey="ebitEv" />
+                  </div>
+                </th>
+                <th 
+                  className="px-6 py-4 hidden md:table-cell cursor-pointer hover:bg-muted/50 transition-colors group"
+                  onClick={() => handleSort('roic')}
+                >
+                  <div className="flex items-center">
+                    ROIC
+                    <SortIcon columnKey="roic" />
+                  </div>
+                </th>
+                {showGraham && (
+                  <>
+                    <th
+                      className="px-6 py-4 cursor-pointer hover:bg-muted/50 transition-colors group whitespace-nowrap"
+                      onClick={() => handleSort('grahamValue')}
+                    >
+                      <div className="flex items-center">
+                        Graham Value
+                        <SortIcon columnKey="grahamValue" />
+                      </div>
+                    </th>
+                    <th
+                      className="px-6 py-4 cursor-pointer hover:bg-muted/50 transition-colors group"
+                      onClick={() => handleSort('grahamUpside')}
+                    >
+                      <div className="flex items-center">
+                        Upside
+                        <SortIcon columnKey="grahamUpside" />
+                      </div>
+                    </th>
+                  </>
+                )}
+                {showBazin && (
+                  <>
+                    <th
+                      className="px-6 py-4 cursor-pointer hover:bg-muted/50 transition-colors group whitespace-nowrap"
+                      onClick={() => handleSort('bazinCeiling')}
+                    >
+                      <div className="flex items-center">
+                        Ceiling Price
+                        <SortIcon columnKey="bazinCeiling" />
+                      </div>
+                    </th>
+                    <th
+                      className="px-6 py-4 cursor-pointer hover:bg-muted/50 transition-colors group"
+                      onClick={() => handleSort('bazinUpside')}
+                    >
+                      <div className="flex items-center">
+                        Upside
+                        <SortIcon columnKey="bazinUpside" />
+                      </div>
+                    </th>
+                  </>
+                )}
+                {visibleExtraColumns.map((col) => (
+                  <th
+                    key={col.key}
+                    className="px-6 py-4 cursor-pointer hover:bg-muted/50 transition-colors group whitespace-nowrap"
+                    onClick={() => handleSort(col.key)}
+                  >
+                    <div className="flex items-center">
+                      {col.label}
+                      <SortIcon columnKey={col.key} />
+                    </div>
+                  </th>
+                ))}
+                <th className="px-6 py-4 text-right">Action</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border/50">
+              {sortedStocks.map((stock) => {
+                const fundamentals = stock.latest;
+                const hasMagicFormula = fundamentals?.ebitEv != null && fundamentals?.roic != null;
+                const isHighlighted = highlightStocks.includes(stock.ticker);
+
+                return (
+                  <tr 
+                    key={stock.ticker}
+                    className={clsx(
+                      "group hover:bg-muted/20 transition-colors duration-150",
+                      isHighlighted && "bg-primary/10 border-l-4 border-l-primary"
                     )}
-                  </td>
-                  <td className="px-6 py-4">
-                    <div className="flex flex-col">
-                      <span className="font-bold text-foreground font-mono">{stock.ticker}</span>
-                      <span className="text-xs text-muted-foreground truncate max-w-[150px]">
-                        {stock.name}
-                      </span>
-                      {stock.isStateOwned && (
-                        <span className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-200 w-fit mt-1">
-                          SOE
-                        </span>
+                  >
+                    <td className="px-6 py-4 font-mono text-sm">
+                      {stock.magicRank ? (
+                        <MagicRankBadge stock={stock} />
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
                       )}
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 font-mono">
-                    {fundamentals?.pl ? fundamentals.pl.toFixed(1) : '-'}
-                  </td>
-                  <td className={clsx("px-6 py-4 font-mono font-medium", 
-                    (fundamentals?.roe || 0) > 15 ? "text-emerald-600 dark:text-emerald-400" : ""
-                  )}>
-                    {fundamentals?.roe ? `${fundamentals.roe}%` : '-'}
-                  </td>
-                  <td className="px-6 py-4 font-mono">
-                    {fundamentals?.pvp ? fundamentals.pvp.toFixed(2) : '-'}
-                  </td>
-                  <td className={clsx("px-6 py-4 font-mono",
-                    (fundamentals?.divYield || 0) > 6 ? "text-emerald-600 dark:text-emerald-400" : ""
-                  )}>
-                    {fundamentals?.divYield ? `${fundamentals.divYield}%` : '-'}
-                  </td>
-                  <td className="px-6 py-4 hidden md:table-cell font-mono text-muted-foreground">
-                    {fundamentals?.ebitEv ? fundamentals.ebitEv.toFixed(2) : '-'}
-                  </td>
-                  <td className="px-6 py-4 hidden md:table-cell font-mono text-muted-foreground">
-                    {fundamentals?.roic ? `${fundamentals.roic.toFixed(1)}%` : '-'}
-                  </td>
-                  <td className="px-6 py-4 text-right">
-                    <Link 
-                      href={`/stocks/${stock.ticker}`} 
-                      className="inline-flex items-center justify-center p-2 rounded-lg text-primary hover:bg-primary/10 hover:text-primary-dark transition-all"
-                    >
-                      <ArrowRight className="w-4 h-4 group-hover:translate-x-0.5 transition-transform" />
-                    </Link>
-                  </td>
-                </tr>
-              );
-            })}
-          </tbody>
-        </table>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex flex-col">
+                        <span className="font-bold text-foreground font-mono">{stock.ticker}</span>
+                        <span className="text-xs text-muted-foreground truncate max-w-[150px]">
+                          {stock.name}
+                        </span>
+                        {stock.isStateOwned && (
+                          <span className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-200 w-fit mt-1">
+                            SOE
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 font-mono">
+                      {fundamentals?.pl ? fundamentals.pl.toFixed(1) : '-'}
+                    </td>
+                    <td className={clsx("px-6 py-4 font-mono font-medium", 
+                      (fundamentals?.roe || 0) > 15 ? "text-emerald-600 dark:text-emerald-400" : ""
+                    )}>
+                      {fundamentals?.roe ? `${fundamentals.roe}%` : '-'}
+                    </td>
+                    <td className="px-6 py-4 font-mono">
+                      {fundamentals?.pvp ? fundamentals.pvp.toFixed(2) : '-'}
+                    </td>
+                    <td className={clsx("px-6 py-4 font-mono",
+                      (fundamentals?.divYield || 0) > 6 ? "text-emerald-600 dark:text-emerald-400" : ""
+                    )}>
+                      {fundamentals?.divYield ? `${fundamentals.divYield}%` : '-'}
+                    </td>
+                    <td className="px-6 py-4 hidden md:table-cell font-mono text-muted-foreground">
+                      {fundamentals?.ebitEv ? fundamentals.ebitEv.toFixed(2) : '-'}
+                    </td>
+                    <td className="px-6 py-4 hidden md:table-cell font-mono text-muted-foreground">
+                      {fundamentals?.roic ? `${fundamentals.roic.toFixed(1)}%` : '-'}
+                    </td>
+                    {showGraham && (
+                      <>
+                        <td className="px-6 py-4 font-mono whitespace-nowrap">
+                          {stock.graham ? `R$ ${stock.graham.fairValue.toFixed(2)}` : '-'}
+                        </td>
+                        <td className={clsx("px-6 py-4 font-mono font-medium",
+                          stock.graham && (stock.graham.upside > 0 ? "text-emerald-600 dark:text-emerald-400" : "text-red-600 dark:text-red-400")
+                        )}>
+                          {stock.graham ? `${stock.graham.upside > 0 ? '+' : ''}${stock.graham.upside.toFixed(1)}%` : '-'}
+                        </td>
+                      </>
+                    )}
+                    {showBazin && (
+                      <>
+                        <td className="px-6 py-4 font-mono whitespace-nowrap">
+                          {stock.bazin ? `R$ ${stock.bazin.ceilingPrice.toFixed(2)}` : '-'}
+                        </td>
+                        <td className={clsx("px-6 py-4 font-mono font-medium",
+                          stock.bazin && (stock.bazin.upside > 0 ? "text-emerald-600 dark:text-emerald-400" : "text-red-600 dark:text-red-400")
+                        )}>
+                          {stock.bazin ? `${stock.bazin.upside > 0 ? '+' : ''}${stock.bazin.upside.toFixed(1)}%` : '-'}
+                        </td>
+                      </>
+                    )}
+                    {visibleExtraColumns.map((col) => {
+                      const value = fundamentals?.[col.key];
+                      return (
+                        <td key={col.key} className="px-6 py-4 font-mono text-muted-foreground whitespace-nowrap">
+                          {value != null ? col.format(value) : '-'}
+                        </td>
+                      );
+                    })}
+                    <td className="px-6 py-4 text-right">
+                      <Link 
+                        href={`/stocks/${stock.ticker}`} 
+                        className="inline-flex items-center justify-center p-2 rounded-lg text-primary hover:bg-primary/10 hover:text-primary-dark transition-all"
+                      >
+                        <ArrowRight className="w-4 h-4 group-hover:translate-x-0.5 transition-transform" />
+                      </Link>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
       </div>
     </div>
   );
 }
+
+// Rank badge; hovering it shows the ROIC and EBIT/EV ranks that add up to the score
+function MagicRankBadge({ stock }: { stock: StockWithLatestFundamental }) {
+  const magicRank = stock.magicRank!;
+  const score = stock.magicFormula;
+
+  const badge = (
+    <span className={clsx(
+      "inline-flex items-center justify-center w-10 h-10 rounded-lg font-bold",
+      score && "cursor-help",
+      magicRank <= 10 ? "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300" :
+      magicRank <= 30 ? "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300" :
+      "bg-muted/50 text-muted-foreground"
+    )}>
+      {magicRank}
+    </span>
+  );
+  if (!score) return badge;
+
+  const rows = [
+    { label: "ROIC", value: stock.latest?.roic != null ? `${stock.latest.roic.toFixed(1)}%` : "-", rank: score.roicRank },
+    { label: "EBIT/EV", value: stock.latest?.ebitEv != null ? stock.latest.ebitEv.toFixed(3) : "-", rank: score.ebitEvRank },
+  ];
+
+  return (
+    <HoverCard openDelay={150}>
+      <HoverCardTrigger asChild>{badge}</HoverCardTrigger>
+      <HoverCardContent align="start" className="w-72 font-body">
+        <p className="text-sm font-semibold mb-3">
+          #{score.position} of {score.universeSize}
+          <span className="ml-2 font-normal text-muted-foreground">ahead of {Math.round(score.percentile)}% of the universe</span>
+        </p>
+        <table className="w-full text-xs">
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.label}>
+                <td className="py-1 text-muted-foreground">{row.label}</td>
+                <td className="py-1 font-mono text-right">{row.value}</td>
+                <td className="py-1 font-mono text-right">rank {row.rank}</td>
+              </tr>
+            ))}
+            <tr className="border-t border-border">
+              <td className="pt-2 font-medium" colSpan={2}>Score (sum of ranks)</td>
+              <td className="pt-2 font-mono font-bold text-right">{magicRank}</td>
+            </tr>
+          </tbody>
+        </table>
+        <p className="mt-3 text-[10px] text-muted-foreground">
+          Rank 1 is the highest value among the {score.universeSize} stocks ranked; the lowest score leads.
+        </p>
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
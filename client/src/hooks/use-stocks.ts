@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api, buildUrl } from "@shared/routes";
-import { type InsertStock, type InsertFundamental } from "@shared/schema";
+import { type InsertStock, type InsertFundamental, type MagicFormulaOptions, type MetricBounds } from "@shared/schema";
 import { z } from "zod";
 
 // Filter params type derived from API schema input
@@ -10,8 +10,14 @@ type StockFilterParams = {
   minRoe?: number;
   maxPvp?: number;
   minDivYield?: number;
+  minLiquidity?: number;
+  minFScore?: number;
   excludeStateOwned?: boolean; // We handle string conversion in the hook
-  sortBy?: 'magic_formula' | 'ticker';
+  sector?: string[];
+  subsector?: string[];
+  min?: MetricBounds;
+  max?: MetricBounds;
+  sortBy?: 'magic_formula' | 'graham_upside' | 'ticker';
 };
 
 export function useStocks(filters: StockFilterParams) {
@@ -34,6 +40,18 @@ export function useStocks(filters: StockFilterParams) {
   // Construct URL with params
   const urlParams = new URLSearchParams();
   Object.entries(queryParams).forEach(([key, value]) => {
+    // Lists are sent as repeated params: sector=A&sector=B
+    if (Array.isArray(value)) {
+      value.forEach((item) => urlParams.append(key, String(item)));
+      return;
+    }
+    // Metric bounds are sent as min[metric]=value / max[metric]=value
+    if (typeof value === 'object') {
+      Object.entries(value as Record<string, number>).forEach(([metric, bound]) => {
+        urlParams.append(`${key}[${metric}]`, String(bound));
+      });
+      return;
+    }
     urlParams.append(key, String(value));
   });
 
@@ -47,6 +65,68 @@ export function useStocks(filters: StockFilterParams) {
   });
 }
 
+export function useSectors() {
+  return useQuery({
+    queryKey: [api.sectors.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.sectors.list.path);
+      if (!res.ok) throw new Error("Failed to fetch sectors");
+      return api.sectors.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useSector(sector: string) {
+  return useQuery({
+    queryKey: [api.sectors.get.path, sector],
+    queryFn: async () => {
+      const url = buildUrl(api.sectors.get.path, { sector: encodeURIComponent(sector) });
+      const res = await fetch(url);
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error("Failed to fetch sector");
+      return api.sectors.get.responses[200].parse(await res.json());
+    },
+    enabled: !!sector,
+  });
+}
+
+export function useMagicFormula(options: MagicFormulaOptions = {}) {
+  return useQuery({
+    queryKey: [api.strategies.magicFormula.path, options],
+    queryFn: async () => {
+      const urlParams = new URLSearchParams();
+      Object.entries(options).forEach(([key, value]) => {
+        if (value === undefined) return;
+        // Excluded sectors are sent as repeated params, like the list filters
+        if (Array.isArray(value)) {
+          value.forEach((item) => urlParams.append(key, item));
+          return;
+        }
+        urlParams.append(key, String(value));
+      });
+
+      const res = await fetch(`${api.strategies.magicFormula.path}?${urlParams.toString()}`);
+      if (!res.ok) throw new Error("Failed to fetch Magic Formula ranking");
+      return api.strategies.magicFormula.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useBazin(options: { years?: number; minYield?: number } = {}) {
+  return useQuery({
+    queryKey: [api.strategies.bazin.path, options],
+    queryFn: async () => {
+      const urlParams = new URLSearchParams();
+      if (options.years !== undefined) urlParams.append("years", String(options.years));
+      if (options.minYield !== undefined) urlParams.append("minYield", String(options.minYield));
+
+      const res = await fetch(`${api.strategies.bazin.path}?${urlParams.toString()}`);
+      if (!res.ok) throw new Error("Failed to fetch Bazin ranking");
+      return api.strategies.bazin.responses[200].parse(await res.json());
+    },
+  });
+}
+
 export function useStock(ticker: string) {
   return useQuery({
     queryKey: [api.stocks.get.path, ticker],
@@ -61,6 +141,36 @@ export function useStock(ticker: string) {
   });
 }
 
+export function usePeers(ticker: string) {
+  return useQuery({
+    queryKey: [api.stocks.peers.path, ticker],
+    queryFn: async () => {
+      const url = buildUrl(api.stocks.peers.path, { ticker });
+      const res = await fetch(url);
+      if (!res.ok) throw new Error("Failed to fetch peers");
+      return api.stocks.peers.responses[200].parse(await res.json());
+    },
+    enabled: !!ticker,
+  });
+}
+
+export function usePrices(ticker: string, range: { from?: string; to?: string } = {}) {
+  return useQuery({
+    queryKey: [api.stocks.prices.path, ticker, range],
+    queryFn: async () => {
+      const urlParams = new URLSearchParams();
+      if (range.from) urlParams.append("from", range.from);
+      if (range.to) urlParams.append("to", range.to);
+
+      const url = buildUrl(api.stocks.prices.path, { ticker });
+      const res = await fetch(`${url}?${urlParams.toString()}`);
+      if (!res.ok) throw new Error("Failed to fetch price history");
+      return api.stocks.prices.responses[200].parse(await res.json());
+    },
+    enabled: !!ticker,
+  });
+}
+
 export function useCreateStock() {
   const queryClient = useQueryClient();
   return useMutation({
@@ -102,7 +212,6 @@ export function useAddFundamental() {
 }
 
 export function useScrapeData() {
-  const queryClient = useQueryClient();
   return useMutation({
     mutationFn: async () => {
       const res = await fetch(api.stocks.scrape.path, {
@@ -111,13 +220,95 @@ export function useScrapeData() {
       });
       if (!res.ok) {
         const error = await res.json();
-        throw new Error(error.message || "Failed to scrape data");
+        throw new Error(error.message || "Failed to start scrape");
       }
-      return api.stocks.scrape.responses[200].parse(await res.json());
+      return api.stocks.scrape.responses[202].parse(await res.json());
     },
-    onSuccess: () => {
-      // Invalidate all stock queries to refresh data
-      queryClient.invalidateQueries({ queryKey: [api.stocks.list.path] });
+  });
+}
+
+export function useScrapeRuns(limit = 50) {
+  return useQuery({
+    queryKey: [api.stocks.scrapeRuns.path, limit],
+    queryFn: async () => {
+      const res = await fetch(`${api.stocks.scrapeRuns.path}?limit=${limit}`);
+      if (!res.ok) throw new Error("Failed to fetch scrape runs");
+      return api.stocks.scrapeRuns.responses[200].parse(await res.json());
+    },
+  });
+}
+
+// Polls a background scrape job until it completes or fails
+export function useScrapeJob(jobId: string | null) {
+  const queryClient = useQueryClient();
+  return useQuery({
+    queryKey: [api.stocks.scrapeJob.path, jobId],
+    queryFn: async () => {
+      const url = buildUrl(api.stocks.scrapeJob.path, { id: jobId! });
+      const res = await fetch(url);
+      if (!res.ok) throw new Error("Failed to fetch scrape progress");
+      const job = api.stocks.scrapeJob.responses[200].parse(await res.json());
+      if (job.phase === 'completed' || job.phase === 'failed') {
+        // Refresh all stock queries with the new snapshot
+        queryClient.invalidateQueries({ queryKey: [api.stocks.list.path] });
+        queryClient.invalidateQueries({ queryKey: [api.stocks.get.path] });
+        queryClient.invalidateQueries({ queryKey: [api.stocks.peers.path] });
+        queryClient.invalidateQueries({ queryKey: [api.stocks.prices.path] });
+        queryClient.invalidateQueries({ queryKey: [api.stocks.scrapeRuns.path] });
+        queryClient.invalidateQueries({ queryKey: [api.sectors.list.path] });
+        queryClient.invalidateQueries({ queryKey: [api.sectors.get.path] });
+        queryClient.invalidateQueries({ queryKey: [api.strategies.bazin.path] });
+        queryClient.invalidateQueries({ queryKey: [api.strategies.magicFormula.path] });
+      }
+      return job;
+    },
+    enabled: !!jobId,
+    refetchInterval: (query) => {
+      const phase = query.state.data?.phase;
+      return phase === 'completed' || phase === 'failed' ? false : 1000;
+    },
+  });
+}
+
+export function useEnrichSectors() {
+  return useMutation({
+    mutationFn: async (maxAgeDays?: number) => {
+      const res = await fetch(api.stocks.enrich.path, {
+        method: api.stocks.enrich.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(maxAgeDays === undefined ? {} : { maxAgeDays }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to start sector classification");
+      }
+      return api.stocks.enrich.responses[202].parse(await res.json());
+    },
+  });
+}
+
+// Polls a background sector classification job until it completes or fails
+export function useEnrichJob(jobId: string | null) {
+  const queryClient = useQueryClient();
+  return useQuery({
+    queryKey: [api.stocks.enrichJob.path, jobId],
+    queryFn: async () => {
+      const url = buildUrl(api.stocks.enrichJob.path, { id: jobId! });
+      const res = await fetch(url);
+      if (!res.ok) throw new Error("Failed to fetch classification progress");
+      const job = api.stocks.enrichJob.responses[200].parse(await res.json());
+      if (job.phase === 'completed' || job.phase === 'failed') {
+        queryClient.invalidateQueries({ queryKey: [api.stocks.list.path] });
+        queryClient.invalidateQueries({ queryKey: [api.stocks.get.path] });
+        queryClient.invalidateQueries({ queryKey: [api.sectors.list.path] });
+        queryClient.invalidateQueries({ queryKey: [api.strategies.magicFormula.path] });
+      }
+      return job;
+    },
+    enabled: !!jobId,
+    refetchInterval: (query) => {
+      const phase = query.state.data?.phase;
+      return phase === 'completed' || phase === 'failed' ? false : 1000;
     },
   });
 }
@@ -140,6 +331,7 @@ export function useScrapeStockDetail() {
     onSuccess: (_, ticker) => {
       // Invalidate queries for this specific stock
       queryClient.invalidateQueries({ queryKey: [api.stocks.get.path, ticker] });
+      queryClient.invalidateQueries({ queryKey: [api.stocks.peers.path, ticker] });
       queryClient.invalidateQueries({ queryKey: [api.stocks.list.path] });
     },
   });
@@ -0,0 +1,21 @@
+import type { FundamentalMetricKey } from "@shared/schema";
+
+const compactNumber = new Intl.NumberFormat('pt-BR', { notation: 'compact', maximumFractionDigits: 1 });
+
+// Metrics from resultado.php beyond the core ones, shown as optional table columns and sidebar bounds
+export const EXTRA_METRICS: { key: FundamentalMetricKey; label: string; format: (value: number) => string }[] = [
+  { key: 'price', label: 'Price', format: (v) => `R$ ${v.toFixed(2)}` },
+  { key: 'psr', label: 'PSR', format: (v) => v.toFixed(2) },
+  { key: 'pAtivo', label: 'P/Ativo', format: (v) => v.toFixed(2) },
+  { key: 'pCapGiro', label: 'P/Cap.Giro', format: (v) => v.toFixed(2) },
+  { key: 'pEbit', label: 'P/EBIT', format: (v) => v.toFixed(2) },
+  { key: 'pAtivCircLiq', label: 'P/Ativ Circ.Liq', format: (v) => v.toFixed(2) },
+  { key: 'evEbitda', label: 'EV/EBITDA', format: (v) => v.toFixed(2) },
+  { key: 'ebitMargin', label: 'EBIT Margin', format: (v) => `${v.toFixed(1)}%` },
+  { key: 'netMargin', label: 'Net Margin', format: (v) => `${v.toFixed(1)}%` },
+  { key: 'currentLiquidity', label: 'Liq. Corr.', format: (v) => v.toFixed(2) },
+  { key: 'liquidity', label: 'Liq. 2m', format: (v) => `R$ ${compactNumber.format(v)}` },
+  { key: 'netWorth', label: 'Net Worth', format: (v) => `R$ ${compactNumber.format(v)}` },
+  { key: 'grossDebtEquity', label: 'Debt/Equity', format: (v) => v.toFixed(2) },
+  { key: 'revenueGrowth5y', label: 'Rev. Growth 5y', format: (v) => `${v.toFixed(1)}%` },
+];
@@ -0,0 +1,12 @@
+import type { SectorSummary } from "@shared/schema";
+
+type SectorMetric = keyof SectorSummary["medians"];
+
+// Metrics compared within a sector, and which direction is cheaper or better
+export const SECTOR_METRICS: { key: SectorMetric; label: string; higherIsBetter: boolean; format: (value: number) => string }[] = [
+  { key: "pl", label: "P/L", higherIsBetter: false, format: (v) => v.toFixed(1) },
+  { key: "pvp", label: "P/VP", higherIsBetter: false, format: (v) => v.toFixed(2) },
+  { key: "roe", label: "ROE", higherIsBetter: true, format: (v) => `${v.toFixed(1)}%` },
+  { key: "divYield", label: "Div Yield", higherIsBetter: true, format: (v) => `${v.toFixed(1)}%` },
+  { key: "ebitEv", label: "EBIT/EV", higherIsBetter: true, format: (v) => v.toFixed(3) },
+];
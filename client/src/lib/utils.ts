@@ -4,3 +4,11 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+const brlFormatter = new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL", maximumFractionDigits: 0 })
+const brlCompactFormatter = new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL", notation: "compact", maximumFractionDigits: 1 })
+
+export function formatBRL(value: number | null | undefined, compact = false) {
+  if (value === null || value === undefined) return "-"
+  return compact ? brlCompactFormatter.format(value) : brlFormatter.format(value)
+}
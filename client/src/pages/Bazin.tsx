@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { Header } from "@/components/Header";
+import { StockTable } from "@/components/StockTable";
+import { Button } from "@/components/ui/button";
+import { useBazin } from "@/hooks/use-stocks";
+import { Coins, Trophy } from "lucide-react";
+
+// Years of dividends the ceiling price averages
+const YEAR_OPTIONS = [3, 5, 10];
+
+export default function Bazin() {
+  const [years, setYears] = useState(5);
+  // The backend averages each stock's dividends and sorts by upside to the ceiling price
+  const { data: stocks, isLoading } = useBazin({ years });
+
+  const underCeiling = stocks?.filter((s) => s.bazin && s.bazin.upside > 0) ?? [];
+  const valuedCount = stocks?.filter((s) => s.bazin).length ?? 0;
+
+  return (
+    <div className="min-h-screen bg-background font-body">
+      <Header />
+      
+      <main className="container mx-auto px-4 py-12">
+        <div className="max-w-4xl mx-auto space-y-8">
+          
+          <div className="bg-gradient-to-br from-amber-500 to-orange-600 rounded-3xl p-8 md:p-12 text-white shadow-xl shadow-amber-500/20 relative overflow-hidden">
+            {/* Background pattern */}
+            <div className="absolute top-0 right-0 w-64 h-64 bg-white/10 rounded-full blur-3xl -translate-y-1/2 translate-x-1/2" />
+            <div className="absolute bottom-0 left-0 w-48 h-48 bg-black/10 rounded-full blur-2xl translate-y-1/2 -translate-x-1/2" />
+            
+            <div className="relative z-10">
+              <div className="flex items-center gap-3 mb-4">
+                <div className="p-2 bg-white/20 backdrop-blur rounded-lg">
+                  <Coins className="w-6 h-6 text-yellow-200" />
+                </div>
+                <span className="text-amber-100 font-medium tracking-wide text-sm uppercase">Strategy View</span>
+              </div>
+              
+              <h1 className="text-4xl md:text-5xl font-display font-bold mb-4">
+                Bazin Ceiling Price
+              </h1>
+              <p className="text-amber-100 max-w-xl text-lg leading-relaxed">
+                Décio Bazin's rule for income investors: pay at most the
+                <span className="text-white font-semibold"> average dividend per share divided by 6%</span>,
+                so the purchase yields at least 6% a year.
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+             <div className="bg-card p-6 rounded-2xl border border-border shadow-sm">
+               <h3 className="text-muted-foreground text-sm font-medium uppercase mb-2">Largest Upside</h3>
+               <div className="flex items-center gap-3">
+                 <Trophy className="w-8 h-8 text-yellow-500" />
+                 <div>
+                   <span className="text-2xl font-bold font-mono">
+                     {underCeiling[0]?.ticker || "---"}
+                   </span>
+                   <p className="text-xs text-muted-foreground">
+                     {underCeiling[0] ? `+${underCeiling[0].bazin!.upside.toFixed(1)}% to R$ ${underCeiling[0].bazin!.ceilingPrice.toFixed(2)}` : ""}
+                   </p>
+                 </div>
+               </div>
+             </div>
+             
+             <div className="bg-card p-6 rounded-2xl border border-border shadow-sm">
+               <h3 className="text-muted-foreground text-sm font-medium uppercase mb-2">Under the Ceiling</h3>
+               <span className="text-2xl font-bold font-mono text-emerald-600">
+                 {underCeiling.length}
+               </span>
+               <p className="text-xs text-muted-foreground mt-1">of {valuedCount} dividend payers</p>
+             </div>
+             
+             <div className="bg-card p-6 rounded-2xl border border-border shadow-sm">
+               <h3 className="text-muted-foreground text-sm font-medium uppercase mb-2">Dividend Average</h3>
+               <div className="flex gap-1 mt-1">
+                 {YEAR_OPTIONS.map((option) => (
+                   <Button
+                     key={option}
+                     variant={years === option ? "secondary" : "ghost"}
+                     size="sm"
+                     onClick={() => setYears(option)}
+                     className="h-8 px-3 text-xs"
+                   >
+                     {option} years
+                   </Button>
+                 ))}
+               </div>
+               <p className="text-xs text-muted-foreground mt-2">Limited to the snapshots stored so far</p>
+             </div>
+          </div>
+
+          <div className="space-y-4">
+            <h2 className="text-xl font-display font-semibold px-2">Trading Under the Ceiling</h2>
+            <StockTable stocks={underCeiling} isLoading={isLoading} showBazin />
+          </div>
+          
+        </div>
+      </main>
+    </div>
+  );
+}
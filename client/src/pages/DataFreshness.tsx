@@ -0,0 +1,143 @@
+import { Header } from "@/components/Header";
+import { useScrapeRuns } from "@/hooks/use-stocks";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CheckCircle2, XCircle, Loader2, Clock, AlertTriangle, MinusCircle } from "lucide-react";
+import { format, formatDistanceToNow, differenceInHours, differenceInSeconds } from "date-fns";
+import { clsx } from "clsx";
+import type { ScrapeRun } from "@shared/schema";
+
+// Snapshots older than this are flagged as stale
+const STALE_AFTER_HOURS = 48;
+
+export default function DataFreshness() {
+  const { data: runs, isLoading } = useScrapeRuns();
+
+  const lastSuccess = runs?.find((run) => run.status === 'completed');
+  const isStale = !lastSuccess || differenceInHours(new Date(), new Date(lastSuccess.finishedAt!)) > STALE_AFTER_HOURS;
+
+  return (
+    <div className="min-h-screen bg-background font-body">
+      <Header />
+
+      <main className="container mx-auto px-4 py-12">
+        <div className="max-w-5xl mx-auto space-y-8">
+          <div>
+            <h1 className="text-3xl font-display font-bold text-foreground">Data Freshness</h1>
+            <p className="text-muted-foreground mt-1">
+              Every bulk scrape of fundamentus.com.br, manual or scheduled, and the scheduled runs that were skipped.
+            </p>
+          </div>
+
+          {isLoading ? (
+            <Skeleton className="h-28 w-full rounded-2xl" />
+          ) : (
+            <div className={clsx(
+              "p-6 rounded-2xl border shadow-sm flex items-center gap-4",
+              isStale ? "bg-amber-50 border-amber-200 dark:bg-amber-900/20 dark:border-amber-900/40" : "bg-card border-border"
+            )}>
+              {isStale ? (
+                <AlertTriangle className="w-8 h-8 text-amber-500 shrink-0" />
+              ) : (
+                <Clock className="w-8 h-8 text-emerald-500 shrink-0" />
+              )}
+              <div>
+                <h3 className="text-muted-foreground text-sm font-medium uppercase">Last successful scrape</h3>
+                <span className="text-2xl font-bold font-mono">
+                  {lastSuccess ? formatDistanceToNow(new Date(lastSuccess.finishedAt!), { addSuffix: true }) : "Never"}
+                </span>
+                {isStale && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    The dashboard may be showing stale numbers. Run "Scrape Data" on the screener to refresh.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div className="w-full overflow-hidden bg-card border border-border rounded-xl shadow-sm">
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead className="bg-muted/30 border-b border-border text-muted-foreground font-medium uppercase tracking-wider text-xs">
+                  <tr>
+                    <th className="px-6 py-4">Started</th>
+                    <th className="px-6 py-4">Trigger</th>
+                    <th className="px-6 py-4">Status</th>
+                    <th className="px-6 py-4">Duration</th>
+                    <th className="px-6 py-4">Scraped</th>
+                    <th className="px-6 py-4 hidden md:table-cell">Created</th>
+                    <th className="px-6 py-4 hidden md:table-cell">Updated</th>
+                    <th className="px-6 py-4">Errors</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border/50">
+                  {isLoading && (
+                    <tr>
+                      <td colSpan={8} className="px-6 py-4">
+                        <Skeleton className="h-8 w-full" />
+                      </td>
+                    </tr>
+                  )}
+                  {!isLoading && runs?.length === 0 && (
+                    <tr>
+                      <td colSpan={8} className="px-6 py-10 text-center text-muted-foreground">
+                        No scrapes recorded yet.
+                      </td>
+                    </tr>
+                  )}
+                  {runs?.map((run) => <RunRow key={run.id} run={run} />)}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
+
+function RunRow({ run }: { run: ScrapeRun }) {
+  const duration = run.finishedAt
+    ? differenceInSeconds(new Date(run.finishedAt), new Date(run.startedAt))
+    : null;
+  const errorCount = run.tickerErrors.length + (run.error ? 1 : 0);
+
+  return (
+    <tr className="hover:bg-muted/20 transition-colors duration-150 align-top">
+      <td className="px-6 py-4 font-mono whitespace-nowrap">
+        {format(new Date(run.startedAt), "MMM d, yyyy HH:mm")}
+      </td>
+      <td className="px-6 py-4 capitalize">{run.trigger}</td>
+      <td className="px-6 py-4">
+        <span className="inline-flex items-center gap-1.5">
+          {run.status === 'completed' && <CheckCircle2 className="w-4 h-4 text-emerald-500" />}
+          {run.status === 'failed' && <XCircle className="w-4 h-4 text-destructive" />}
+          {run.status === 'running' && <Loader2 className="w-4 h-4 animate-spin text-primary" />}
+          {run.status === 'skipped' && <MinusCircle className="w-4 h-4 text-muted-foreground" />}
+          <span className="capitalize">{run.status}</span>
+        </span>
+        {run.skipReason && <p className="mt-1 text-xs text-muted-foreground max-w-xs">{run.skipReason}</p>}
+      </td>
+      <td className="px-6 py-4 font-mono">{duration !== null ? `${duration}s` : '-'}</td>
+      <td className="px-6 py-4 font-mono">{run.scraped ?? '-'}</td>
+      <td className="px-6 py-4 font-mono hidden md:table-cell">{run.stocksCreated ?? '-'}</td>
+      <td className="px-6 py-4 font-mono hidden md:table-cell">{run.stocksUpdated ?? '-'}</td>
+      <td className="px-6 py-4">
+        {errorCount === 0 ? (
+          <span className="text-muted-foreground">-</span>
+        ) : (
+          <details>
+            <summary className="cursor-pointer text-destructive font-medium">{errorCount}</summary>
+            <ul className="mt-2 space-y-1 text-xs text-muted-foreground max-w-xs">
+              {run.error && <li className="text-destructive">{run.error}</li>}
+              {run.tickerErrors.map((e) => (
+                <li key={e.ticker}>
+                  <span className="font-mono font-semibold text-foreground">{e.ticker}</span>: {e.message}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+      </td>
+    </tr>
+  );
+}
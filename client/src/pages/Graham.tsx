@@ -0,0 +1,96 @@
+import { Header } from "@/components/Header";
+import { StockTable } from "@/components/StockTable";
+import { useStocks } from "@/hooks/use-stocks";
+import { Scale, Trophy } from "lucide-react";
+
+export default function Graham() {
+  // The backend values each stock at its Graham number and sorts by upside
+  const { data: stocks, isLoading } = useStocks({
+    sortBy: 'graham_upside',
+    minRoe: 0, // Reset these defaults to show every valued stock
+    minDivYield: 0,
+    maxPl: 100,
+    maxPvp: 100,
+  });
+
+  const valued = stocks?.filter((s) => s.graham) ?? [];
+  const belowFairValue = valued.filter((s) => s.graham!.upside > 0);
+  const medianUpside = valued.length > 0 ? valued[Math.floor(valued.length / 2)].graham!.upside : null;
+
+  return (
+    <div className="min-h-screen bg-background font-body">
+      <Header />
+      
+      <main className="container mx-auto px-4 py-12">
+        <div className="max-w-4xl mx-auto space-y-8">
+          
+          <div className="bg-gradient-to-br from-emerald-500 to-teal-600 rounded-3xl p-8 md:p-12 text-white shadow-xl shadow-emerald-500/20 relative overflow-hidden">
+            {/* Background pattern */}
+            <div className="absolute top-0 right-0 w-64 h-64 bg-white/10 rounded-full blur-3xl -translate-y-1/2 translate-x-1/2" />
+            <div className="absolute bottom-0 left-0 w-48 h-48 bg-black/10 rounded-full blur-2xl translate-y-1/2 -translate-x-1/2" />
+            
+            <div className="relative z-10">
+              <div className="flex items-center gap-3 mb-4">
+                <div className="p-2 bg-white/20 backdrop-blur rounded-lg">
+                  <Scale className="w-6 h-6 text-yellow-300" />
+                </div>
+                <span className="text-emerald-100 font-medium tracking-wide text-sm uppercase">Strategy View</span>
+              </div>
+              
+              <h1 className="text-4xl md:text-5xl font-display font-bold mb-4">
+                The Graham Number
+              </h1>
+              <p className="text-emerald-100 max-w-xl text-lg leading-relaxed">
+                Benjamin Graham's fair value, <span className="text-white font-semibold">√(22.5 × LPA × VPA)</span>:
+                the most a defensive investor should pay, at a P/L of 15 and a P/VP of 1.5.
+                The gap to the price is the <span className="text-white font-semibold">margin of safety</span>.
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+             <div className="bg-card p-6 rounded-2xl border border-border shadow-sm">
+               <h3 className="text-muted-foreground text-sm font-medium uppercase mb-2">Largest Upside</h3>
+               <div className="flex items-center gap-3">
+                 <Trophy className="w-8 h-8 text-yellow-500" />
+                 <div>
+                   <span className="text-2xl font-bold font-mono">
+                     {valued[0]?.ticker || "---"}
+                   </span>
+                   <p className="text-xs text-muted-foreground">
+                     {valued[0] ? `+${valued[0].graham!.upside.toFixed(1)}% to R$ ${valued[0].graham!.fairValue.toFixed(2)}` : ""}
+                   </p>
+                 </div>
+               </div>
+             </div>
+             
+             <div className="bg-card p-6 rounded-2xl border border-border shadow-sm">
+               <h3 className="text-muted-foreground text-sm font-medium uppercase mb-2">Below Fair Value</h3>
+               <span className="text-2xl font-bold font-mono text-emerald-600">
+                 {belowFairValue.length}
+               </span>
+               <p className="text-xs text-muted-foreground mt-1">of {valued.length} stocks with a Graham number</p>
+             </div>
+             
+             <div className="bg-card p-6 rounded-2xl border border-border shadow-sm">
+               <h3 className="text-muted-foreground text-sm font-medium uppercase mb-2">Median Upside</h3>
+               <span className="text-2xl font-bold font-mono text-primary">
+                 {medianUpside === null ? "-" : `${medianUpside > 0 ? "+" : ""}${medianUpside.toFixed(1)}%`}
+               </span>
+               <p className="text-xs text-muted-foreground mt-1">Across the market, to the Graham number</p>
+             </div>
+          </div>
+
+          <div className="space-y-4">
+            <h2 className="text-xl font-display font-semibold px-2">Cheapest to Fair Value</h2>
+            <p className="text-sm text-muted-foreground px-2">
+              Loss-making companies and negative equity have no Graham number and are listed last.
+            </p>
+            <StockTable stocks={stocks || []} isLoading={isLoading} showGraham />
+          </div>
+          
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,12 +1,14 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect } from "react";
 import { Header } from "@/components/Header";
 import { SidebarFilters } from "@/components/SidebarFilters";
 import { StockTable } from "@/components/StockTable";
 import { MyStockListCard } from "@/components/MyStockListCard";
-import { useStocks, useScrapeData } from "@/hooks/use-stocks";
+import { useStocks, useScrapeData, useScrapeJob, useEnrichSectors, useEnrichJob } from "@/hooks/use-stocks";
 import { Button } from "@/components/ui/button";
-import { RefreshCw, Download } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { RefreshCw, Download, FlaskConical, Layers } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import type { MetricBounds } from "@shared/schema";
 
 export default function Home() {
   const { toast } = useToast();
@@ -16,7 +18,12 @@ export default function Home() {
     minRoe: 10,
     maxPvp: 2.5,
     minDivYield: 6,
+    minLiquidity: 0,
+    minFScore: 0,
     excludeStateOwned: false,
+    sector: [] as string[],
+    min: {} as MetricBounds,
+    max: {} as MetricBounds,
   });
   const [myStocks, setMyStocks] = useState<string[]>([]);
   const [myStockFilter, setMyStockFilter] = useState({ filterMyList: false, highlightMyList: false });
@@ -37,6 +44,58 @@ export default function Home() {
   }, [allStocks, myStockFilter.filterMyList, myStocks]);
 
   const scrapeMutation = useScrapeData();
+  const [scrapeJobId, setScrapeJobId] = useState<string | null>(null);
+  const { data: scrapeJob } = useScrapeJob(scrapeJobId);
+  const isScraping = scrapeMutation.isPending || (!!scrapeJobId && scrapeJob?.phase !== 'completed' && scrapeJob?.phase !== 'failed');
+  const scrapePercent = scrapeJob?.total ? Math.round((scrapeJob.processed / scrapeJob.total) * 100) : 0;
+
+  const enrichMutation = useEnrichSectors();
+  const [enrichJobId, setEnrichJobId] = useState<string | null>(null);
+  const { data: enrichJob } = useEnrichJob(enrichJobId);
+  const isEnriching = enrichMutation.isPending || (!!enrichJobId && enrichJob?.phase !== 'completed' && enrichJob?.phase !== 'failed');
+  const enrichPercent = enrichJob?.total ? Math.round((enrichJob.processed / enrichJob.total) * 100) : 0;
+
+  // Report the outcome once the background job finishes
+  useEffect(() => {
+    if (!scrapeJob || !scrapeJobId) return;
+    if (scrapeJob.phase === 'completed' && scrapeJob.result) {
+      const result = scrapeJob.result;
+      toast({
+        title: "Data Scraped Successfully",
+        description: `Scraped ${result.scraped} stocks. Created: ${result.stocksCreated}, Updated: ${result.stocksUpdated}` +
+          (scrapeJob.errors.length > 0 ? `, Failed: ${scrapeJob.errors.length}` : ""),
+      });
+      setScrapeJobId(null);
+    } else if (scrapeJob.phase === 'failed') {
+      toast({
+        title: "Scraping Failed",
+        description: scrapeJob.error || "Failed to scrape data from fundamentus.com.br",
+        variant: "destructive",
+      });
+      setScrapeJobId(null);
+    }
+  }, [scrapeJob, scrapeJobId, toast]);
+
+  useEffect(() => {
+    if (!enrichJob || !enrichJobId) return;
+    if (enrichJob.phase === 'completed') {
+      toast({
+        title: "Sectors Updated",
+        description: enrichJob.total === 0
+          ? `Every classification is newer than ${enrichJob.maxAgeDays} days.`
+          : `Classified ${enrichJob.processed - enrichJob.errors.length} of ${enrichJob.total} stocks` +
+            (enrichJob.errors.length > 0 ? `, Failed: ${enrichJob.errors.length}` : ""),
+      });
+      setEnrichJobId(null);
+    } else if (enrichJob.phase === 'failed') {
+      toast({
+        title: "Classification Failed",
+        description: enrichJob.error || "Failed to fetch sectors from fundamentus.com.br",
+        variant: "destructive",
+      });
+      setEnrichJobId(null);
+    }
+  }, [enrichJob, enrichJobId, toast]);
 
   const handleReset = () => {
     setFilters({
@@ -44,18 +103,20 @@ export default function Home() {
       minRoe: 10,
       maxPvp: 2.5,
       minDivYield: 6,
+      minLiquidity: 0,
+      minFScore: 0,
       excludeStateOwned: false,
+      sector: [],
+      min: {},
+      max: {},
     });
     setSearch("");
   };
 
   const handleScrape = async () => {
     try {
-      const result = await scrapeMutation.mutateAsync();
-      toast({
-        title: "Data Scraped Successfully",
-        description: `Scraped ${result.scraped} stocks. Created: ${result.stocksCreated}, Updated: ${result.stocksUpdated}`,
-      });
+      const { job } = await scrapeMutation.mutateAsync();
+      setScrapeJobId(job.id);
     } catch (error: any) {
       toast({
         title: "Scraping Failed",
@@ -65,6 +126,19 @@ export default function Home() {
     }
   };
 
+  const handleEnrich = async () => {
+    try {
+      const { job } = await enrichMutation.mutateAsync(undefined);
+      setEnrichJobId(job.id);
+    } catch (error: any) {
+      toast({
+        title: "Classification Failed",
+        description: error.message || "Failed to start sector classification",
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <div className="min-h-screen bg-background font-body text-foreground">
       <Header onSearch={setSearch} />
@@ -102,12 +176,23 @@ export default function Home() {
                 <Button 
                   variant="outline"
                   onClick={handleScrape}
-                  disabled={scrapeMutation.isPending}
+                  disabled={isScraping}
                   className="rounded-xl"
                 >
-                  <Download className={`w-4 h-4 mr-2 ${scrapeMutation.isPending ? 'animate-pulse' : ''}`} />
+                  <Download className={`w-4 h-4 mr-2 ${isScraping ? 'animate-pulse' : ''}`} />
                   Scrape Data
                 </Button>
+
+                <Button 
+                  variant="outline"
+                  onClick={handleEnrich}
+                  disabled={isEnriching}
+                  className="rounded-xl"
+                  title="Fetch sector and subsector for stocks that have none or an outdated one"
+                >
+                  <Layers className={`w-4 h-4 mr-2 ${isEnriching ? 'animate-pulse' : ''}`} />
+                  Fetch Sectors
+                </Button>
                 
                 <Button 
                   variant="outline" 
@@ -121,6 +206,42 @@ export default function Home() {
               </div>
             </div>
 
+            {isScraping && (
+              <div className="bg-card border border-border rounded-xl p-4 space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium">
+                    {scrapeJob?.phase === 'ingesting' ? 'Storing snapshot' : 'Fetching fundamentus.com.br'}
+                  </span>
+                  <span className="font-mono text-muted-foreground">
+                    {scrapeJob?.total ? `${scrapeJob.processed} / ${scrapeJob.total}` : '...'}
+                  </span>
+                </div>
+                <Progress value={scrapePercent} className="h-2" />
+              </div>
+            )}
+
+            {isEnriching && (
+              <div className="bg-card border border-border rounded-xl p-4 space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium">Fetching sectors from detalhes.php</span>
+                  <span className="font-mono text-muted-foreground">
+                    {enrichJob?.total ? `${enrichJob.processed} / ${enrichJob.total}` : '...'}
+                  </span>
+                </div>
+                <Progress value={enrichPercent} className="h-2" />
+              </div>
+            )}
+
+            {allStocks?.some((stock) => stock.isDemo) && (
+              <div className="flex items-start gap-3 p-4 rounded-xl border bg-amber-50 border-amber-200 dark:bg-amber-900/20 dark:border-amber-900/40 text-sm">
+                <FlaskConical className="w-5 h-5 text-amber-500 shrink-0 mt-0.5" />
+                <p>
+                  <span className="font-semibold">Demo data.</span>{' '}
+                  These are real tickers with generated fundamentals. Click "Scrape Data" to replace them with figures from fundamentus.com.br.
+                </p>
+              </div>
+            )}
+
             {/* Mobile Filters would go here (Collapsible) */}
             
             <StockTable 
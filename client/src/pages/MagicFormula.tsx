@@ -1,18 +1,55 @@
+import { useState } from "react";
 import { Header } from "@/components/Header";
 import { StockTable } from "@/components/StockTable";
-import { useStocks } from "@/hooks/use-stocks";
-import { Sparkles, Trophy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useMagicFormula, useSectors } from "@/hooks/use-stocks";
+import { formatBRL } from "@/lib/utils";
+import type { MagicFormulaOptions } from "@shared/schema";
+import { ChevronDown, Sparkles, Trophy } from "lucide-react";
+
+// Mirrors the server defaults, so the first request is the canonical ranking
+const DEFAULT_OPTIONS = {
+  excludeFinancials: true,
+  excludeSectors: [] as string[],
+  minLiquidity: 0,
+  minMarketCap: 0,
+  negativeEbit: 'exclude' as MagicFormulaOptions['negativeEbit'],
+  dropNulls: true,
+  oneClassPerCompany: false,
+};
+
+const TOGGLES = [
+  { key: 'excludeFinancials', label: 'Exclude financials', hint: 'Banks and insurers' },
+  { key: 'dropNulls', label: 'Drop incomplete', hint: 'Missing ROIC or EBIT/EV' },
+  { key: 'oneClassPerCompany', label: 'One class per company', hint: 'Most traded ticker only' },
+] as const;
 
 export default function MagicFormula() {
-  // Magic Formula relies on High ROIC and Low EV/EBIT (which means High EBIT/EV)
-  // We'll request sorting by magic_formula from backend
-  const { data: stocks, isLoading } = useStocks({
-    sortBy: 'magic_formula',
-    minRoe: 0, // Reset these defaults to show full ranking
-    minDivYield: 0,
-    maxPl: 100,
-    maxPvp: 100,
-  });
+  const [options, setOptions] = useState(DEFAULT_OPTIONS);
+  const { data: sectors } = useSectors();
+  // The backend ranks the eligible universe by ROIC and EBIT/EV and returns it in order
+  const { data: stocks, isLoading } = useMagicFormula(options);
+
+  const setOption = <K extends keyof typeof DEFAULT_OPTIONS>(key: K, value: (typeof DEFAULT_OPTIONS)[K]) => {
+    setOptions({ ...options, [key]: value });
+  };
+
+  const toggleSector = (sector: string, checked: boolean) => {
+    setOption("excludeSectors", checked
+      ? [...options.excludeSectors, sector]
+      : options.excludeSectors.filter((s) => s !== sector));
+  };
 
   return (
     <div className="min-h-screen bg-background font-body">
@@ -76,8 +113,117 @@ export default function MagicFormula() {
              </div>
           </div>
 
+          <div className="bg-card p-6 rounded-2xl border border-border shadow-sm space-y-6">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-display font-semibold">Universe</h2>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setOptions(DEFAULT_OPTIONS)}
+                className="h-8 px-2 text-muted-foreground hover:text-foreground"
+              >
+                Reset
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+              {TOGGLES.map((toggle) => (
+                <div key={toggle.key} className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label className="text-sm font-medium">{toggle.label}</Label>
+                    <p className="text-[10px] text-muted-foreground">{toggle.hint}</p>
+                  </div>
+                  <Switch
+                    checked={options[toggle.key]}
+                    onCheckedChange={(val) => setOption(toggle.key, val)}
+                  />
+                </div>
+              ))}
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label className="text-sm font-medium">Rank loss-makers</Label>
+                  <p className="text-[10px] text-muted-foreground">Negative EBIT, at the bottom</p>
+                </div>
+                <Switch
+                  checked={options.negativeEbit === 'rank'}
+                  onCheckedChange={(val) => setOption("negativeEbit", val ? 'rank' : 'exclude')}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-x-8 gap-y-6 pt-4 border-t border-border/50">
+              <div className="space-y-3">
+                <Label className="text-sm font-medium">Exclude sectors</Label>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" className="w-full justify-between rounded-lg text-xs font-normal">
+                      <span className="truncate">
+                        {options.excludeSectors.length === 0
+                          ? "None"
+                          : options.excludeSectors.length === 1 ? options.excludeSectors[0] : `${options.excludeSectors.length} sectors`}
+                      </span>
+                      <ChevronDown className="w-3.5 h-3.5 ml-1.5 text-muted-foreground" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start" className="w-64 max-h-80 overflow-y-auto">
+                    <DropdownMenuLabel>Sectors</DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                    {sectors?.map((s) => (
+                      <DropdownMenuCheckboxItem
+                        key={s.sector}
+                        checked={options.excludeSectors.includes(s.sector)}
+                        onCheckedChange={(checked) => toggleSector(s.sector, checked)}
+                        onSelect={(e) => e.preventDefault()}
+                      >
+                        <span className="flex-1 truncate">{s.sector}</span>
+                        <span className="ml-2 text-xs font-mono text-muted-foreground">{s.count}</span>
+                      </DropdownMenuCheckboxItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex justify-between items-center">
+                  <Label className="text-sm font-medium">Min Liquidity / day</Label>
+                  <span className="text-xs font-mono bg-muted px-2 py-0.5 rounded text-muted-foreground">
+                    {formatBRL(options.minLiquidity, true)}
+                  </span>
+                </div>
+                <Slider
+                  value={[options.minLiquidity]}
+                  min={0}
+                  max={10_000_000}
+                  step={100_000}
+                  onValueChange={([val]) => setOption("minLiquidity", val)}
+                  className="py-2"
+                />
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex justify-between items-center">
+                  <Label className="text-sm font-medium">Min Market Cap</Label>
+                  <span className="text-xs font-mono bg-muted px-2 py-0.5 rounded text-muted-foreground">
+                    {formatBRL(options.minMarketCap, true)}
+                  </span>
+                </div>
+                <Slider
+                  value={[options.minMarketCap]}
+                  min={0}
+                  max={10_000_000_000}
+                  step={250_000_000}
+                  onValueChange={([val]) => setOption("minMarketCap", val)}
+                  className="py-2"
+                />
+              </div>
+            </div>
+          </div>
+
           <div className="space-y-4">
-            <h2 className="text-xl font-display font-semibold px-2">Ranked Opportunities</h2>
+            <h2 className="text-xl font-display font-semibold px-2">
+              Ranked Opportunities
+              {stocks && <span className="ml-2 text-sm font-normal text-muted-foreground">{stocks.length} eligible</span>}
+            </h2>
             <StockTable stocks={stocks || []} isLoading={isLoading} />
           </div>
           
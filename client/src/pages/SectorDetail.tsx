@@ -0,0 +1,129 @@
+import { Link, useRoute } from "wouter";
+import { clsx } from "clsx";
+import type { PeerComparison } from "@shared/schema";
+import { Header } from "@/components/Header";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useSector } from "@/hooks/use-stocks";
+import { SECTOR_METRICS } from "@/lib/sector-metrics";
+import { ArrowLeft, ArrowRight } from "lucide-react";
+
+export default function SectorDetail() {
+  const [, params] = useRoute("/sectors/:sector");
+  const sector = params?.sector ? decodeURIComponent(params.sector) : "";
+  const { data: detail, isLoading } = useSector(sector);
+
+  return (
+    <div className="min-h-screen bg-background font-body">
+      <Header />
+
+      <main className="container mx-auto px-4 py-12">
+        <div className="max-w-6xl mx-auto space-y-8">
+          <Link href="/sectors" className="inline-flex items-center text-sm text-muted-foreground hover:text-primary transition-colors">
+            <ArrowLeft className="w-4 h-4 mr-1" /> All sectors
+          </Link>
+
+          <div>
+            <h1 className="text-3xl font-display font-bold text-foreground">{sector}</h1>
+            <p className="text-muted-foreground mt-1">
+              Each metric next to its percentile among the sector's stocks and its distance from the sector mean in standard deviations.
+            </p>
+          </div>
+
+          {isLoading && <Skeleton className="h-96 w-full rounded-2xl" />}
+
+          {!isLoading && !detail && (
+            <p className="text-muted-foreground">No stocks are classified under {sector}.</p>
+          )}
+
+          {detail && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                {SECTOR_METRICS.map((metric) => {
+                  const value = detail.summary.medians[metric.key];
+                  return (
+                    <div key={metric.key} className="bg-card p-4 rounded-xl border border-border shadow-sm">
+                      <div className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-1">
+                        Median {metric.label}
+                      </div>
+                      <div className="text-2xl font-bold font-mono">{value === null ? "-" : metric.format(value)}</div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="w-full overflow-hidden bg-card border border-border rounded-xl shadow-sm">
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left text-sm">
+                    <thead className="bg-muted/30 border-b border-border text-muted-foreground font-medium uppercase tracking-wider text-xs">
+                      <tr>
+                        <th className="px-6 py-4">Ticker</th>
+                        {SECTOR_METRICS.map((metric) => (
+                          <th key={metric.key} className="px-6 py-4">{metric.label}</th>
+                        ))}
+                        <th className="px-6 py-4 text-right">Action</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border/50">
+                      {detail.stocks.map((stock) => (
+                        <tr key={stock.ticker} className="group hover:bg-muted/30 transition-colors">
+                          <td className="px-6 py-4">
+                            <div className="font-bold font-mono text-foreground">{stock.ticker}</div>
+                            <div className="text-xs text-muted-foreground truncate max-w-[160px]">{stock.subsector || stock.name}</div>
+                          </td>
+                          {SECTOR_METRICS.map((metric) => {
+                            const value = stock.latest?.[metric.key];
+                            return (
+                              <td key={metric.key} className="px-6 py-4">
+                                <div className="font-mono">{value == null ? "-" : metric.format(value)}</div>
+                                <PeerBadge comparison={stock.relative[metric.key]} higherIsBetter={metric.higherIsBetter} />
+                              </td>
+                            );
+                          })}
+                          <td className="px-6 py-4 text-right">
+                            <Link
+                              href={`/stocks/${stock.ticker}`}
+                              className="inline-flex items-center justify-center p-2 rounded-lg text-muted-foreground hover:text-primary hover:bg-primary/10 transition-colors"
+                            >
+                              <ArrowRight className="w-4 h-4" />
+                            </Link>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+// Green in the cheapest/best quartile of the sector, red in the worst
+function PeerBadge({ comparison, higherIsBetter }: { comparison: PeerComparison | null; higherIsBetter: boolean }) {
+  if (!comparison) return null;
+
+  const score = higherIsBetter ? comparison.percentile : 100 - comparison.percentile;
+  const zScore = comparison.zScore === null ? "-" : `${comparison.zScore > 0 ? "+" : ""}${comparison.zScore.toFixed(1)}σ`;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className={clsx(
+          "inline-block mt-1 text-[10px] font-mono px-1.5 py-0.5 rounded cursor-help",
+          score >= 75 && "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400",
+          score <= 25 && "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
+          score > 25 && score < 75 && "bg-muted text-muted-foreground",
+        )}>
+          P{Math.round(comparison.percentile)} · {zScore}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent>
+        Higher than {Math.round(comparison.percentile)}% of the sector; z-score {zScore}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
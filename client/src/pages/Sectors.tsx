@@ -0,0 +1,81 @@
+import { Link } from "wouter";
+import { Header } from "@/components/Header";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useSectors } from "@/hooks/use-stocks";
+import { SECTOR_METRICS } from "@/lib/sector-metrics";
+import { ArrowRight, PieChart } from "lucide-react";
+
+export default function Sectors() {
+  const { data: sectors, isLoading } = useSectors();
+
+  return (
+    <div className="min-h-screen bg-background font-body">
+      <Header />
+
+      <main className="container mx-auto px-4 py-12">
+        <div className="max-w-6xl mx-auto space-y-8">
+          <div>
+            <h1 className="text-3xl font-display font-bold text-foreground">Sectors</h1>
+            <p className="text-muted-foreground mt-1">
+              Median multiples per sector, from each stock's latest snapshot. A bank's P/VP is only comparable to other banks'.
+            </p>
+          </div>
+
+          {isLoading && (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {[...Array(6)].map((_, i) => (
+                <Skeleton key={i} className="h-48 w-full rounded-2xl" />
+              ))}
+            </div>
+          )}
+
+          {!isLoading && sectors?.length === 0 && (
+            <div className="flex flex-col items-center justify-center py-20 bg-muted/10 rounded-2xl border border-dashed border-border text-center">
+              <PieChart className="w-12 h-12 text-muted-foreground/30 mb-4" />
+              <h3 className="text-lg font-display font-medium text-foreground">No sectors yet</h3>
+              <p className="text-sm text-muted-foreground mt-1 max-w-xs">
+                Scrape data and run "Fetch Sectors" on the screener to classify stocks.
+              </p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {sectors?.map((sector) => (
+              <Link
+                key={sector.sector}
+                href={`/sectors/${encodeURIComponent(sector.sector)}`}
+                className="group bg-card p-6 rounded-2xl border border-border shadow-sm hover:border-primary/40 hover:shadow-md transition-all duration-200"
+              >
+                <div className="flex items-start justify-between gap-2 mb-1">
+                  <h3 className="font-display font-semibold text-lg text-foreground">{sector.sector}</h3>
+                  <span className="text-xs font-mono bg-muted px-2 py-0.5 rounded text-muted-foreground whitespace-nowrap">
+                    {sector.count} {sector.count === 1 ? "stock" : "stocks"}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground truncate mb-4">
+                  {sector.subsectors.length > 0 ? sector.subsectors.join(", ") : " "}
+                </p>
+
+                <div className="grid grid-cols-5 gap-2">
+                  {SECTOR_METRICS.map((metric) => {
+                    const value = sector.medians[metric.key];
+                    return (
+                      <div key={metric.key}>
+                        <div className="text-[10px] uppercase tracking-wider text-muted-foreground">{metric.label}</div>
+                        <div className="font-mono text-sm font-medium">{value === null ? "-" : metric.format(value)}</div>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="flex items-center text-xs text-primary font-medium mt-4 opacity-0 group-hover:opacity-100 transition-opacity">
+                  Compare stocks <ArrowRight className="w-3 h-3 ml-1" />
+                </div>
+              </Link>
+            ))}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,14 +1,26 @@
 import { useRoute } from "wouter";
-import { useStock, useScrapeStockDetail } from "@/hooks/use-stocks";
+import { useState } from "react";
+import { useStock, useScrapeStockDetail, usePrices } from "@/hooks/use-stocks";
 import { Header } from "@/components/Header";
 import { MetricCard } from "@/components/MetricCard";
+import { PeerComparison } from "@/components/PeerComparison";
+import { PiotroskiCard } from "@/components/PiotroskiCard";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ArrowLeft, TrendingUp, Info, Download, ExternalLink } from "lucide-react";
 import { Link } from "wouter";
-import { format } from "date-fns";
+import { format, subMonths, subYears } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { formatBRL } from "@/lib/utils";
+
+const PRICE_RANGES = {
+  "3M": () => format(subMonths(new Date(), 3), "yyyy-MM-dd"),
+  "1Y": () => format(subYears(new Date(), 1), "yyyy-MM-dd"),
+  "All": () => undefined,
+} as const;
+
+type PriceRange = keyof typeof PRICE_RANGES;
 
 export default function StockDetail() {
   const [match, params] = useRoute("/stocks/:ticker");
@@ -16,6 +28,8 @@ export default function StockDetail() {
   const { data: stock, isLoading } = useStock(ticker || "");
   const { toast } = useToast();
   const scrapeDetailMutation = useScrapeStockDetail();
+  const [priceRange, setPriceRange] = useState<PriceRange>("1Y");
+  const { data: prices } = usePrices(ticker || "", { from: PRICE_RANGES[priceRange]() });
 
   const handleScrapeDetails = async () => {
     if (!ticker) return;
@@ -49,21 +63,53 @@ export default function StockDetail() {
     );
   }
 
-  // The API returns { stock: {...}, history: [...] }
-  const stockData = (stock as any).stock || stock;
-  const history = (stock as any).history || [];
+  const { stock: stockData, history, bazin, fScore } = stock;
   
   // Get the latest fundamental from history
   const latest = history.length > 0 ? history[history.length - 1] : null;
-  const fundamental = latest || {};
-  const hasLimitedInfo = stockData.name === stockData.ticker || stockData.sector === 'Unknown';
   
-  const profitHistory = history.map((h: any) => ({
-    date: format(new Date(h.date), "MMM yy"),
-    value: h.netProfit
-  }));
+  // Only snapshots enriched by the detail scraper carry the income statement
+  const profitHistory = history
+    .filter((h) => h.netIncome12m != null)
+    .map((h) => ({
+      date: format(new Date(h.date), "MMM yy"),
+      netIncome: h.netIncome12m,
+      ebit: h.ebit12m,
+    }));
+  const latestIncome = [...history].reverse().find((h) => h.netIncome12m != null);
+  const latestFacts = [...history].reverse().find((h) => h.marketCap != null);
+  const hasLimitedInfo = stockData.name === stockData.ticker || stockData.sector === 'Unknown' || !latestIncome || !latestFacts;
   
-  const roeHistory = history.map((h: any) => ({
+  const formatNumber = (value: number | null | undefined, digits = 2) =>
+    value == null ? "-" : value.toLocaleString("pt-BR", { minimumFractionDigits: digits, maximumFractionDigits: digits });
+  const formatPercent = (value: number | null | undefined) => value == null ? "-" : `${formatNumber(value, 1)}%`;
+
+  const companyFacts = latestFacts ? [
+    { label: "Market Cap", value: formatBRL(latestFacts.marketCap, true) },
+    { label: "Firm Value", value: formatBRL(latestFacts.firmValue, true) },
+    { label: "Shares", value: formatNumber(latestFacts.sharesOutstanding, 0) },
+    { label: "52w Min", value: latestFacts.min52w == null ? "-" : `R$ ${formatNumber(latestFacts.min52w)}` },
+    { label: "52w Max", value: latestFacts.max52w == null ? "-" : `R$ ${formatNumber(latestFacts.max52w)}` },
+    { label: "Avg. Daily Volume (2m)", value: formatBRL(latestFacts.liquidity, true) },
+    { label: "LPA", value: formatNumber(latestFacts.lpa) },
+    { label: "VPA", value: formatNumber(latestFacts.vpa) },
+    { label: "Gross Margin", value: formatPercent(latestFacts.grossMargin) },
+    { label: "EBIT Margin", value: formatPercent(latestFacts.ebitMargin) },
+    { label: "Net Margin", value: formatPercent(latestFacts.netMargin) },
+    { label: "Total Assets", value: formatBRL(latestFacts.totalAssets, true) },
+    { label: "Current Assets", value: formatBRL(latestFacts.currentAssets, true) },
+    { label: "Cash", value: formatBRL(latestFacts.cash, true) },
+    { label: "Gross Debt", value: formatBRL(latestFacts.grossDebt, true) },
+    { label: "Net Debt", value: formatBRL(latestFacts.netDebt, true) },
+    { label: "Net Worth", value: formatBRL(latestFacts.netWorth, true) },
+  ] : [];
+
+  const priceHistory = (prices || []).map((p) => ({
+    date: format(new Date(p.date), "dd MMM yy"),
+    close: p.close,
+  }));
+
+  const roeHistory = history.map((h) => ({
     date: format(new Date(h.date), "MMM yy"),
     roe: h.roe,
     divYield: h.divYield
@@ -139,12 +185,12 @@ export default function StockDetail() {
           <div className="flex gap-2">
             <MetricCard 
               label="Current P/L" 
-              value={fundamental.pl?.toFixed(1) || "-"} 
+              value={latest?.pl?.toFixed(1) || "-"} 
               className="min-w-[140px]"
             />
              <MetricCard 
               label="Dividend Yield" 
-              value={fundamental.divYield?.toFixed(1) || "-"} 
+              value={latest?.divYield?.toFixed(1) || "-"} 
               suffix="%"
               highlight
               className="min-w-[140px]"
@@ -153,13 +199,66 @@ export default function StockDetail() {
         </div>
 
         {/* Metrics Grid */}
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-12">
-          <MetricCard label="P/VP" value={fundamental.pvp?.toFixed(2) || "-"} />
-          <MetricCard label="ROE" value={fundamental.roe?.toFixed(1) || "-"} suffix="%" />
-          <MetricCard label="EBIT/EV" value={fundamental.ebitEv?.toFixed(2) || "-"} />
-          <MetricCard label="ROIC" value={fundamental.roic?.toFixed(1) || "-"} suffix="%" />
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-12">
+          <MetricCard label="P/VP" value={latest?.pvp?.toFixed(2) || "-"} />
+          <MetricCard label="ROE" value={latest?.roe?.toFixed(1) || "-"} suffix="%" />
+          <MetricCard label="EBIT/EV" value={latest?.ebitEv?.toFixed(2) || "-"} />
+          <MetricCard label="ROIC" value={latest?.roic?.toFixed(1) || "-"} suffix="%" />
+          <MetricCard
+            label="Bazin Ceiling"
+            value={bazin ? `R$ ${formatNumber(bazin.ceilingPrice)}` : "-"}
+            trend={bazin ? (bazin.upside > 0 ? "up" : "down") : undefined}
+            subtext={bazin
+              ? `${bazin.upside > 0 ? "+" : ""}${formatNumber(bazin.upside, 1)}% upside · ${bazin.years}y avg. dividend R$ ${formatNumber(bazin.averageDividend)}`
+              : "No dividends on record"}
+          />
         </div>
 
+        {/* Income Statement */}
+        {latestIncome && (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-12">
+            <MetricCard
+              label="Net Revenue (12m)"
+              value={formatBRL(latestIncome.revenue12m, true)}
+              subtext={`Last quarter: ${formatBRL(latestIncome.revenue3m, true)}`}
+            />
+            <MetricCard
+              label="EBIT (12m)"
+              value={formatBRL(latestIncome.ebit12m, true)}
+              subtext={`Last quarter: ${formatBRL(latestIncome.ebit3m, true)}`}
+            />
+            <MetricCard
+              label="Net Income (12m)"
+              value={formatBRL(latestIncome.netIncome12m, true)}
+              subtext={`Last quarter: ${formatBRL(latestIncome.netIncome3m, true)}`}
+            />
+          </div>
+        )}
+
+        {/* Company Facts */}
+        {latestFacts && (
+          <div className="bg-card rounded-2xl border border-border p-6 shadow-sm mb-12">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-lg font-semibold font-display">Company facts</h3>
+              <span className="text-xs text-muted-foreground">
+                As of {format(new Date(latestFacts.date), "MMM d, yyyy")}
+              </span>
+            </div>
+            <dl className="grid grid-cols-2 md:grid-cols-4 gap-x-6 gap-y-4">
+              {companyFacts.map((fact) => (
+                <div key={fact.label} className="border-b border-border/50 pb-2">
+                  <dt className="text-xs font-medium text-muted-foreground uppercase tracking-wider">{fact.label}</dt>
+                  <dd className="font-mono font-semibold text-foreground mt-1">{fact.value}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        )}
+
+        <PiotroskiCard fScore={fScore} />
+
+        <PeerComparison ticker={stockData.ticker} />
+
         {/* Analysis Charts */}
         <div className="grid md:grid-cols-2 gap-8">
           {/* Stability Analysis */}
@@ -184,6 +283,8 @@ export default function StockDetail() {
                     fontSize={12} 
                     tickLine={false} 
                     axisLine={false}
+                    tickFormatter={(v: number) => formatBRL(v, true)}
+                    width={80}
                   />
                   <Tooltip 
                     contentStyle={{ 
@@ -191,14 +292,25 @@ export default function StockDetail() {
                       borderColor: 'var(--border)', 
                       borderRadius: '8px' 
                     }} 
+                    formatter={(v: number) => formatBRL(v)}
                   />
                   <Line 
+                    name="Net Income (12m)"
                     type="monotone" 
-                    dataKey="value" 
+                    dataKey="netIncome" 
                     stroke="var(--primary)" 
                     strokeWidth={2} 
                     dot={false}
                   />
+                  <Line 
+                    name="EBIT (12m)"
+                    type="monotone" 
+                    dataKey="ebit" 
+                    stroke="var(--accent)" 
+                    strokeWidth={2} 
+                    strokeDasharray="5 5"
+                    dot={false}
+                  />
                 </LineChart>
               </ResponsiveContainer>
             </div>
@@ -206,6 +318,7 @@ export default function StockDetail() {
               <Info className="w-5 h-5 text-primary shrink-0 mt-0.5" />
               <p className="text-xs text-muted-foreground leading-relaxed">
                 <span className="font-semibold text-foreground">Tip:</span> Consistent profit growth over multiple periods indicates a stable business model, distinct from one-off events.
+                {profitHistory.length === 0 && " Use \"Fetch Complete Details\" to load the income statement."}
               </p>
             </div>
           </div>
@@ -269,6 +382,69 @@ export default function StockDetail() {
               </div>
             </div>
           </div>
+
+          <div className="bg-card rounded-2xl border border-border p-6 shadow-sm md:col-span-2">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-lg font-semibold font-display">Price History</h3>
+              <div className="flex gap-1">
+                {(Object.keys(PRICE_RANGES) as PriceRange[]).map((range) => (
+                  <Button
+                    key={range}
+                    variant={priceRange === range ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => setPriceRange(range)}
+                    className="h-7 px-2 text-xs"
+                  >
+                    {range}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="h-[250px] w-full">
+              {priceHistory.length > 0 ? (
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={priceHistory}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="var(--border)" vertical={false} />
+                    <XAxis 
+                      dataKey="date" 
+                      stroke="var(--muted-foreground)" 
+                      fontSize={12} 
+                      tickLine={false} 
+                      axisLine={false}
+                    />
+                    <YAxis 
+                      stroke="var(--muted-foreground)" 
+                      fontSize={12} 
+                      tickLine={false} 
+                      axisLine={false}
+                      domain={["auto", "auto"]}
+                      tickFormatter={(v: number) => `R$ ${v.toFixed(2)}`}
+                      width={70}
+                    />
+                    <Tooltip 
+                      contentStyle={{ 
+                        backgroundColor: 'var(--background)', 
+                        borderColor: 'var(--border)', 
+                        borderRadius: '8px' 
+                      }} 
+                      formatter={(v: number) => [`R$ ${v.toFixed(2)}`, "Close"]}
+                    />
+                    <Line 
+                      type="monotone" 
+                      dataKey="close" 
+                      stroke="var(--primary)" 
+                      strokeWidth={2} 
+                      dot={false}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              ) : (
+                <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+                  No prices recorded for this period. Prices are stored on every scrape.
+                </div>
+              )}
+            </div>
+          </div>
         </div>
       </main>
     </div>
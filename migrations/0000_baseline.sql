@@ -0,0 +1,74 @@
+CREATE TABLE IF NOT EXISTS "fundamentals" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ticker" text NOT NULL,
+	"date" date NOT NULL,
+	"p_l" real,
+	"roe" real,
+	"p_vp" real,
+	"div_yield" real,
+	"ebit_ev" real,
+	"roic" real,
+	"price" real,
+	"psr" real,
+	"p_ativo" real,
+	"p_cap_giro" real,
+	"p_ebit" real,
+	"p_ativ_circ_liq" real,
+	"ev_ebitda" real,
+	"ebit_margin" real,
+	"net_margin" real,
+	"current_liquidity" real,
+	"liquidity" double precision,
+	"net_worth" double precision,
+	"gross_debt_equity" real,
+	"revenue_growth_5y" real,
+	"revenue_12m" double precision,
+	"ebit_12m" double precision,
+	"net_income_12m" double precision,
+	"revenue_3m" double precision,
+	"ebit_3m" double precision,
+	"net_income_3m" double precision,
+	"market_cap" double precision,
+	"firm_value" double precision,
+	"shares_outstanding" double precision,
+	"min_52w" real,
+	"max_52w" real,
+	"lpa" real,
+	"vpa" real,
+	"gross_margin" real,
+	"total_assets" double precision,
+	"current_assets" double precision,
+	"cash" double precision,
+	"gross_debt" double precision,
+	"net_debt" double precision
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "prices" (
+	"ticker" text NOT NULL,
+	"date" date NOT NULL,
+	"close" double precision NOT NULL,
+	CONSTRAINT "prices_ticker_date_pk" PRIMARY KEY("ticker","date")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "scrape_runs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"job_id" text NOT NULL,
+	"trigger" text NOT NULL,
+	"status" text NOT NULL,
+	"started_at" timestamp with time zone NOT NULL,
+	"finished_at" timestamp with time zone,
+	"scraped" integer,
+	"stocks_created" integer,
+	"stocks_updated" integer,
+	"fundamentals_created" integer,
+	"error" text,
+	"ticker_errors" jsonb DEFAULT '[]'::jsonb NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "stocks" (
+	"ticker" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"sector" text,
+	"subsector" text,
+	"is_state_owned" boolean DEFAULT false
+);
@@ -0,0 +1,14 @@
+-- Databases created with db:push may already have the column and a (ticker, date) index
+ALTER TABLE "scrape_runs" ADD COLUMN IF NOT EXISTS "fundamentals_updated" integer;--> statement-breakpoint
+DROP INDEX IF EXISTS "fundamentals_ticker_date_idx";--> statement-breakpoint
+-- Dedup: keep the most recently inserted snapshot per (ticker, date)
+DELETE FROM "fundamentals" f
+USING "fundamentals" newer
+WHERE newer."ticker" = f."ticker" AND newer."date" = f."date" AND newer."id" > f."id";--> statement-breakpoint
+-- Rows for tickers without a stock were never listed; drop them so the foreign keys can be added
+DELETE FROM "fundamentals" WHERE "ticker" NOT IN (SELECT "ticker" FROM "stocks");--> statement-breakpoint
+DELETE FROM "prices" WHERE "ticker" NOT IN (SELECT "ticker" FROM "stocks");--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD CONSTRAINT "fundamentals_ticker_stocks_ticker_fk" FOREIGN KEY ("ticker") REFERENCES "public"."stocks"("ticker") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "prices" ADD CONSTRAINT "prices_ticker_stocks_ticker_fk" FOREIGN KEY ("ticker") REFERENCES "public"."stocks"("ticker") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "fundamentals_ticker_date_idx" ON "fundamentals" USING btree ("ticker","date" DESC NULLS LAST);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "fundamentals_date_idx" ON "fundamentals" USING btree ("date" DESC NULLS LAST);
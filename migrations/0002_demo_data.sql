@@ -0,0 +1 @@
+ALTER TABLE "stocks" ADD COLUMN "is_demo" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "stocks" ADD COLUMN "classified_at" timestamp with time zone;
\ No newline at end of file
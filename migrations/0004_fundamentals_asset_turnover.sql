@@ -0,0 +1 @@
+ALTER TABLE "fundamentals" ADD COLUMN "asset_turnover" real;
\ No newline at end of file
@@ -0,0 +1,36 @@
+-- Tables created with db:push before the baseline keep their original columns, since the
+-- baseline skips existing tables. Add every fundamentals column introduced since then.
+-- The old net_profit column is left in place; net_income_12m replaces it.
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "price" real;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "psr" real;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "p_ativo" real;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "p_cap_giro" real;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "p_ebit" real;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "p_ativ_circ_liq" real;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "ev_ebitda" real;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "ebit_margin" real;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "net_margin" real;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "current_liquidity" real;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "liquidity" double precision;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "net_worth" double precision;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "gross_debt_equity" real;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "revenue_growth_5y" real;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "revenue_12m" double precision;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "ebit_12m" double precision;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "net_income_12m" double precision;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "revenue_3m" double precision;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "ebit_3m" double precision;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "net_income_3m" double precision;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "market_cap" double precision;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "firm_value" double precision;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "shares_outstanding" double precision;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "min_52w" real;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "max_52w" real;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "lpa" real;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "vpa" real;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "gross_margin" real;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "total_assets" double precision;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "current_assets" double precision;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "cash" double precision;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "gross_debt" double precision;--> statement-breakpoint
+ALTER TABLE "fundamentals" ADD COLUMN IF NOT EXISTS "net_debt" double precision;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "scrape_runs" ALTER COLUMN "job_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "scrape_runs" ADD COLUMN "skip_reason" text;
\ No newline at end of file
@@ -0,0 +1,156 @@
+/**
+ * Benchmarks DatabaseStorage.getStocks against the previous one-query-per-stock
+ * implementation. Seeds BENCH-prefixed tickers into DATABASE_URL, reports latency
+ * for a few filter combinations and removes the seeded rows afterwards.
+ *
+ *   npm run bench:stocks -- [tickers=3000] [snapshots=8] [iterations=5]
+ */
+import "dotenv/config";
+import { getDb, closeDb } from "../server/db";
+import { DatabaseStorage } from "../server/storage";
+import { rankMagicFormula } from "../server/magic-formula";
+import { grahamValuation, sortByGrahamUpside } from "../server/graham";
+import { stocks, fundamentals, type FilterRequest, type FundamentalMetricKey } from "../shared/schema";
+import { and, desc, eq, inArray, like, sql } from "drizzle-orm";
+
+const db = getDb();
+const storage = new DatabaseStorage();
+
+const [tickerCount = 3000, snapshotCount = 8, iterations = 5] = process.argv.slice(2).map(Number);
+const PREFIX = "BENCH";
+
+const scenarios: { name: string; filters: FilterRequest }[] = [
+  { name: "no filters", filters: {} },
+  { name: "search", filters: { search: `${PREFIX}01` } },
+  { name: "screener defaults", filters: { maxPl: 15, minRoe: 10, maxPvp: 2.5, minDivYield: 6 } },
+  { name: "liquid only", filters: { minLiquidity: 1_000_000, max: { ebitEv: 0.2 } } },
+  { name: "magic formula", filters: { sortBy: "magic_formula" } },
+];
+
+// Deterministic pseudo-random numbers so runs are comparable
+let seed = 42;
+function random() {
+  seed = (seed * 1103515245 + 12345) % 2 ** 31;
+  return seed / 2 ** 31;
+}
+
+async function seedBenchData() {
+  const stockRows = Array.from({ length: tickerCount }, (_, i) => ({
+    ticker: `${PREFIX}${String(i).padStart(5, "0")}`,
+    name: `Benchmark Company ${i}`,
+    sector: "Benchmark",
+    isStateOwned: i % 10 === 0,
+  }));
+
+  const fundamentalRows = stockRows.flatMap((stock) =>
+    Array.from({ length: snapshotCount }, (_, s) => ({
+      ticker: stock.ticker,
+      date: new Date(Date.UTC(2024, 0, 1 + s * 30)).toISOString().split("T")[0],
+      pl: random() * 40,
+      roe: random() * 40,
+      pvp: random() * 8,
+      divYield: random() * 15,
+      ebitEv: random() * 0.3,
+      roic: random() * 35,
+      liquidity: random() * 50_000_000,
+    })),
+  );
+
+  for (let i = 0; i < stockRows.length; i += 1000) {
+    await db.insert(stocks).values(stockRows.slice(i, i + 1000));
+  }
+  for (let i = 0; i < fundamentalRows.length; i += 1000) {
+    await db.insert(fundamentals).values(fundamentalRows.slice(i, i + 1000));
+  }
+}
+
+async function cleanup() {
+  await db.delete(fundamentals).where(like(fundamentals.ticker, `${PREFIX}%`));
+  await db.delete(stocks).where(like(stocks.ticker, `${PREFIX}%`));
+}
+
+/**
+ * The implementation getStocks replaced: one SELECT per stock, filtered in JavaScript.
+ * It applies the same filters and ordering as getStocks, so both return the same rows.
+ */
+async function legacyGetStocks(filters: FilterRequest) {
+  const conditions = [];
+  if (filters.search) {
+    conditions.push(sql`(${stocks.ticker} ILIKE ${`%${filters.search}%`} OR ${stocks.name} ILIKE ${`%${filters.search}%`})`);
+  }
+  if (filters.excludeStateOwned) conditions.push(eq(stocks.isStateOwned, false));
+  if (filters.sector?.length) conditions.push(inArray(stocks.sector, filters.sector));
+  if (filters.subsector?.length) conditions.push(inArray(stocks.subsector, filters.subsector));
+
+  const allStocks = await db.select()
+    .from(stocks)
+    .where(conditions.length ? and(...conditions) : undefined)
+    .orderBy(stocks.ticker);
+  const results: any[] = [];
+  for (const stock of allStocks) {
+    const [latest] = await db.select()
+      .from(fundamentals)
+      .where(eq(fundamentals.ticker, stock.ticker))
+      .orderBy(desc(fundamentals.date), desc(fundamentals.id))
+      .limit(1);
+    if (!latest) continue;
+    if (filters.maxPl !== undefined && (latest.pl === null || latest.pl > filters.maxPl)) continue;
+    if (filters.minRoe !== undefined && (latest.roe === null || latest.roe < filters.minRoe)) continue;
+    if (filters.maxPvp !== undefined && (latest.pvp === null || latest.pvp > filters.maxPvp)) continue;
+    if (filters.minDivYield !== undefined && (latest.divYield === null || latest.divYield < filters.minDivYield)) continue;
+    if (filters.minLiquidity !== undefined && (latest.liquidity === null || latest.liquidity < filters.minLiquidity)) continue;
+    if (!withinBounds(latest, filters)) continue;
+    results.push({ ...stock, latest, graham: grahamValuation(latest) });
+  }
+
+  if (filters.sortBy === "magic_formula") {
+    rankMagicFormula(results);
+  } else if (filters.sortBy === "graham_upside") {
+    sortByGrahamUpside(results);
+  }
+  return results;
+}
+
+function withinBounds(latest: typeof fundamentals.$inferSelect, filters: FilterRequest) {
+  const metrics = (bounds: FilterRequest["min"]) => Object.entries(bounds ?? {}) as [FundamentalMetricKey, number][];
+  return metrics(filters.min).every(([key, bound]) => latest[key] !== null && latest[key] >= bound) &&
+    metrics(filters.max).every(([key, bound]) => latest[key] !== null && latest[key] <= bound);
+}
+
+async function time(fn: () => Promise<unknown[]>) {
+  const durations: number[] = [];
+  let rows = 0;
+  for (let i = 0; i < iterations; i++) {
+    const start = performance.now();
+    rows = (await fn()).length;
+    durations.push(performance.now() - start);
+  }
+  durations.sort((a, b) => a - b);
+  return { median: durations[Math.floor(durations.length / 2)], rows };
+}
+
+async function main() {
+  console.log(`Seeding ${tickerCount} tickers x ${snapshotCount} snapshots...`);
+  await cleanup();
+  await seedBenchData();
+
+  try {
+    console.log(`Median of ${iterations} runs (ms):`);
+    for (const { name, filters } of scenarios) {
+      const before = await time(() => legacyGetStocks(filters));
+      const after = await time(() => storage.getStocks(filters));
+      console.log(
+        `  ${name.padEnd(18)} before ${before.median.toFixed(0).padStart(7)}  after ${after.median.toFixed(0).padStart(6)}` +
+        `  (${before.rows} / ${after.rows} rows)`,
+      );
+    }
+  } finally {
+    await cleanup();
+    await closeDb();
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,33 @@
+/**
+ * Seeds the configured storage with the demo dataset (see server/seed.ts).
+ * Does nothing when the database already has stocks. In-memory storage needs
+ * STORAGE_FILE, or the seeded data would be gone when the script exits.
+ *
+ *   npm run db:seed
+ */
+import "dotenv/config";
+import { storage } from "../server/storage";
+import { MemStorage } from "../server/mem-storage";
+import { closeDb } from "../server/db";
+
+async function main() {
+  if (storage instanceof MemStorage && !process.env.STORAGE_FILE) {
+    console.error("In-memory storage is not persisted; set STORAGE_FILE (or DATABASE_URL) to seed demo data");
+    process.exit(1);
+  }
+
+  const existing = await storage.getStocks();
+  if (existing.length > 0) {
+    console.log(`Database already has ${existing.length} stocks, nothing seeded`);
+  } else {
+    await storage.seedData();
+    console.log(`Seeded ${(await storage.getStocks()).length} demo stocks`);
+  }
+  if (storage instanceof MemStorage) await storage.flush();
+  await closeDb();
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
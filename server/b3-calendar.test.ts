@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { b3Holidays, dateInTimezone, nonTradingReason } from './b3-calendar';
+
+describe('b3Holidays', () => {
+  it('includes the Easter-based holidays', () => {
+    // Easter 2026 is April 5th
+    const holidays = b3Holidays(2026);
+    assert.ok(holidays.includes('2026-02-16'), 'Carnaval Monday');
+    assert.ok(holidays.includes('2026-02-17'), 'Carnaval Tuesday');
+    assert.ok(holidays.includes('2026-04-03'), 'Good Friday');
+    assert.ok(holidays.includes('2026-06-04'), 'Corpus Christi');
+  });
+
+  it('includes the fixed holidays', () => {
+    const holidays = b3Holidays(2025);
+    assert.ok(holidays.includes('2025-04-21'));
+    assert.ok(holidays.includes('2025-11-20'));
+    assert.ok(holidays.includes('2025-12-24'));
+  });
+
+  it('only observes Consciência Negra from 2024 on', () => {
+    assert.ok(!b3Holidays(2023).includes('2023-11-20'));
+    assert.equal(nonTradingReason('2023-11-20'), null);
+    assert.ok(b3Holidays(2024).includes('2024-11-20'));
+  });
+});
+
+describe('nonTradingReason', () => {
+  it('detects weekends and holidays', () => {
+    assert.equal(nonTradingReason('2026-10-17'), 'weekend');
+    assert.equal(nonTradingReason('2026-10-18'), 'weekend');
+    assert.equal(nonTradingReason('2026-10-12'), 'B3 holiday');
+  });
+
+  it('returns null on trading days', () => {
+    assert.equal(nonTradingReason('2026-10-19'), null);
+    assert.equal(nonTradingReason('2026-04-02'), null);
+  });
+});
+
+describe('dateInTimezone', () => {
+  it('uses the calendar date of the given timezone', () => {
+    // 01:30 UTC on Monday is still Sunday evening in São Paulo
+    const instant = new Date('2026-10-19T01:30:00Z');
+    assert.equal(dateInTimezone(instant, 'UTC'), '2026-10-19');
+    assert.equal(dateInTimezone(instant, 'America/Sao_Paulo'), '2026-10-18');
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * B3 trading calendar: weekends plus the national and exchange holidays
+ * on which the Brazilian stock exchange does not open.
+ */
+
+// Fixed-date holidays as MM-DD
+const FIXED_HOLIDAYS = [
+  '01-01', // Confraternização Universal
+  '04-21', // Tiradentes
+  '05-01', // Dia do Trabalho
+  '09-07', // Independência
+  '10-12', // Nossa Senhora Aparecida
+  '11-02', // Finados
+  '11-15', // Proclamação da República
+  '12-24', // Véspera de Natal (no trading)
+  '12-25', // Natal
+  '12-31', // Último dia do ano (no trading)
+];
+
+// Fixed-date holidays that only apply from a given year on
+const LATER_FIXED_HOLIDAYS = [
+  { date: '11-20', since: 2024 }, // Dia da Consciência Negra (national holiday since 2024)
+];
+
+// Holidays relative to Easter Sunday, in days
+const EASTER_OFFSETS = [
+  -48, // Carnaval (Monday)
+  -47, // Carnaval (Tuesday)
+  -2,  // Sexta-feira Santa
+  60,  // Corpus Christi
+];
+
+/**
+ * Easter Sunday for a given year (anonymous Gregorian algorithm), as a UTC date
+ */
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * All B3 holidays of a year as YYYY-MM-DD strings
+ */
+export function b3Holidays(year: number): string[] {
+  const easter = easterSunday(year);
+  const movable = EASTER_OFFSETS.map((offset) => {
+    const date = new Date(easter);
+    date.setUTCDate(date.getUTCDate() + offset);
+    return date.toISOString().split('T')[0];
+  });
+  const fixed = [
+    ...FIXED_HOLIDAYS,
+    ...LATER_FIXED_HOLIDAYS.filter((holiday) => year >= holiday.since).map((holiday) => holiday.date),
+  ];
+  return [...fixed.map((mmdd) => `${year}-${mmdd}`), ...movable].sort();
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant as seen in the given IANA timezone
+ */
+export function dateInTimezone(instant: Date, timezone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(instant);
+}
+
+/**
+ * Why B3 is closed on a YYYY-MM-DD date, or null when it is a trading day
+ */
+export function nonTradingReason(date: string): string | null {
+  const [year, month, day] = date.split('-').map(Number);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+
+  if (weekday === 0 || weekday === 6) return 'weekend';
+  if (b3Holidays(year).includes(date)) return 'B3 holiday';
+  return null;
+}
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { DividendSnapshot, StockWithLatestFundamental } from '@shared/schema';
+import { bazinValuation, rankBazin } from './bazin';
+
+const history: DividendSnapshot[] = [
+  { ticker: 'AAAA3', date: '2022-06-01', price: 10, divYield: 20 }, // superseded by the December snapshot
+  { ticker: 'AAAA3', date: '2022-12-01', price: 20, divYield: 5 },  // R$ 1.00
+  { ticker: 'AAAA3', date: '2023-12-01', price: 25, divYield: 8 },  // R$ 2.00
+  { ticker: 'AAAA3', date: '2024-06-01', price: 30, divYield: 10 }, // R$ 3.00
+];
+
+describe('bazinValuation', () => {
+  it('divides the average yearly dividend by the required yield', () => {
+    const bazin = bazinValuation(history, 25);
+    assert.equal(bazin?.averageDividend, 2);
+    assert.equal(bazin?.years, 3);
+    assert.ok(Math.abs(bazin!.ceilingPrice - 2 / 0.06) < 1e-9);
+    assert.ok(Math.abs(bazin!.upside - (2 / 0.06 - 25) / 25 * 100) < 1e-9);
+  });
+
+  it('only averages the last years up to the latest snapshot', () => {
+    const bazin = bazinValuation(history, 25, { years: 2, minYield: 5 });
+    assert.equal(bazin?.averageDividend, 2.5);
+    assert.equal(bazin?.ceilingPrice, 50);
+    assert.equal(bazin?.upside, 100);
+  });
+
+  it('has no ceiling without a price or dividends', () => {
+    assert.equal(bazinValuation(history, null), null);
+    assert.equal(bazinValuation([], 10), null);
+    assert.equal(bazinValuation([{ date: '2024-06-01', price: 10, divYield: 0 }], 10), null);
+  });
+});
+
+describe('rankBazin', () => {
+  it('values each stock from its own history and sorts by upside', () => {
+    const ranked = rankBazin([
+      { ticker: 'DDDD3', latest: null },
+      { ticker: 'AAAA3', latest: { price: 30 } },
+      { ticker: 'BBBB3', latest: { price: 10 } },
+      { ticker: 'CCCC3', latest: { price: 5 } },
+    ] as unknown as StockWithLatestFundamental[], [
+      ...history,
+      { ticker: 'BBBB3', date: '2024-06-01', price: 10, divYield: 12 },
+    ]);
+
+    // CCCC3 and DDDD3 have no ceiling price and go last, by ticker
+    assert.deepEqual(ranked.map((s) => s.ticker), ['BBBB3', 'AAAA3', 'CCCC3', 'DDDD3']);
+    assert.equal(ranked[0].bazin?.ceilingPrice, 20);
+    assert.equal(ranked[2].bazin, null);
+  });
+});
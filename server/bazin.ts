@@ -0,0 +1,64 @@
+import type { BazinValuation, DividendSnapshot, StockWithLatestFundamental } from "@shared/schema";
+import { descendingNullsLast } from "./compare";
+
+export const BAZIN_DEFAULTS = {
+  years: 5,     // Dividends averaged over this many calendar years
+  minYield: 6,  // Yield in % the average dividend must pay at the ceiling price
+};
+
+type BazinOptions = Partial<typeof BAZIN_DEFAULTS>;
+
+/**
+ * Décio Bazin's ceiling price: the average yearly dividend per share divided by
+ * the required yield (6%). Each snapshot's dividend is its price × trailing 12-month
+ * yield; the last snapshot of each calendar year stands for that year, and only the
+ * `years` years up to the latest snapshot count.
+ *
+ * Null without a price or when the stock paid nothing over the period.
+ */
+export function bazinValuation(
+  history: Pick<DividendSnapshot, 'date' | 'price' | 'divYield'>[],
+  price: number | null | undefined,
+  { years = BAZIN_DEFAULTS.years, minYield = BAZIN_DEFAULTS.minYield }: BazinOptions = {},
+): BazinValuation | null {
+  if (!price) return null;
+
+  const dividendByYear = new Map<number, number>();
+  for (const row of [...history].sort((a, b) => a.date.localeCompare(b.date))) {
+    if (row.price === null || row.divYield === null) continue;
+    dividendByYear.set(Number(row.date.slice(0, 4)), (row.price * row.divYield) / 100);
+  }
+  if (dividendByYear.size === 0) return null;
+
+  const latestYear = Math.max(...Array.from(dividendByYear.keys()));
+  const dividends = Array.from(dividendByYear)
+    .filter(([year]) => year > latestYear - years)
+    .map(([, dividend]) => dividend);
+  const averageDividend = dividends.reduce((sum, d) => sum + d, 0) / dividends.length;
+  if (averageDividend <= 0) return null;
+
+  const ceilingPrice = averageDividend / (minYield / 100);
+  return {
+    averageDividend,
+    years: dividends.length,
+    ceilingPrice,
+    upside: ((ceilingPrice - price) / price) * 100,
+  };
+}
+
+/**
+ * Sets `bazin` on every stock from its dividend history and sorts by upside to
+ * the ceiling price, highest first; stocks without one go last. Ties, and stocks
+ * without a ceiling price, are ordered by ticker.
+ */
+export function rankBazin<T extends StockWithLatestFundamental>(results: T[], history: DividendSnapshot[], options: BazinOptions = {}): T[] {
+  const byTicker = new Map<string, DividendSnapshot[]>();
+  for (const row of history) {
+    byTicker.set(row.ticker, [...(byTicker.get(row.ticker) ?? []), row]);
+  }
+
+  results.forEach((s) => {
+    s.bazin = bazinValuation(byTicker.get(s.ticker) ?? [], s.latest?.price, options);
+  });
+  return results.sort(descendingNullsLast((s) => s.bazin?.upside));
+}
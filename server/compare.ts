@@ -0,0 +1,13 @@
+/**
+ * Comparator ordering by `value`, highest first, with missing values last.
+ * Ties, and items missing the value, are ordered by ticker.
+ */
+export function descendingNullsLast<T extends { ticker: string }>(value: (item: T) => number | null | undefined) {
+  return (a: T, b: T) => {
+    const [valueA, valueB] = [value(a), value(b)];
+    if (valueA == null || valueB == null) {
+      return (valueA == null ? 1 : 0) - (valueB == null ? 1 : 0) || a.ticker.localeCompare(b.ticker);
+    }
+    return valueB - valueA || a.ticker.localeCompare(b.ticker);
+  };
+}
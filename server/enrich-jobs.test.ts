@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { forEachWithConcurrency } from './enrich-jobs';
+
+describe('forEachWithConcurrency', () => {
+  it('visits every item once without exceeding the concurrency limit', async () => {
+    const seen: number[] = [];
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    await forEachWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, 0, async (item) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      seen.push(item);
+      inFlight--;
+    });
+
+    assert.deepEqual(seen.sort(), [1, 2, 3, 4, 5, 6, 7]);
+    assert.equal(maxInFlight, 3);
+  });
+
+  it('waits between the calls of each worker', async () => {
+    const startedAt: number[] = [];
+    await forEachWithConcurrency([1, 2, 3], 1, 30, async () => {
+      startedAt.push(Date.now());
+    });
+
+    assert.equal(startedAt.length, 3);
+    assert.ok(startedAt[1] - startedAt[0] >= 25, 'second call is delayed');
+    assert.ok(startedAt[2] - startedAt[1] >= 25, 'third call is delayed');
+  });
+
+  it('handles an empty list', async () => {
+    let calls = 0;
+    await forEachWithConcurrency([], 4, 10, async () => { calls++; });
+    assert.equal(calls, 0);
+  });
+});
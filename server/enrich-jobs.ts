@@ -0,0 +1,131 @@
+import { randomUUID } from "crypto";
+import type { EnrichJob } from "@shared/schema";
+import { storage } from "./storage";
+import { scrapeStockDetail } from "./scraper";
+import { storeStockDetail } from "./scrape-pipeline";
+import { log } from "./log";
+
+// Finished jobs kept around for polling clients
+const MAX_JOBS = 20;
+
+// detalhes.php is one request per ticker, so keep the load on fundamentus low
+const config = {
+  concurrency: envNumber('ENRICH_CONCURRENCY', 2, 1),
+  delayMs: envNumber('ENRICH_DELAY_MS', 1000),
+  maxAgeDays: envNumber('ENRICH_MAX_AGE_DAYS', 30),
+};
+
+const jobs = new Map<string, EnrichJob>();
+let activeJobId: string | null = null;
+
+export function getEnrichJob(id: string): EnrichJob | undefined {
+  return jobs.get(id);
+}
+
+/**
+ * Starts reading detalhes.php for every stock whose classification is missing or
+ * older than `maxAgeDays`, in the background. Besides sector and subsector, each
+ * page's ratios and balance sheet are stored as today's snapshot, so the F-score
+ * has data to compare.
+ * Only one enrichment runs at a time: while one is in progress its job is returned instead.
+ */
+export function startEnrichJob(maxAgeDays = config.maxAgeDays): EnrichJob {
+  const active = activeJobId ? jobs.get(activeJobId) : undefined;
+  if (active) return active;
+
+  const job: EnrichJob = {
+    id: randomUUID(),
+    phase: 'queued',
+    maxAgeDays,
+    total: 0,
+    processed: 0,
+    errors: [],
+    error: null,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+  };
+
+  jobs.set(job.id, job);
+  activeJobId = job.id;
+  pruneJobs();
+
+  void runJob(job);
+  return job;
+}
+
+async function runJob(job: EnrichJob) {
+  try {
+    const cutoff = new Date(Date.now() - job.maxAgeDays * 24 * 60 * 60 * 1000).toISOString();
+    const queue = await storage.getStocksToClassify(cutoff);
+    job.total = queue.length;
+    job.phase = 'running';
+    log(`Classifying ${queue.length} stocks (concurrency ${config.concurrency}, ${config.delayMs}ms apart)`, 'enrich');
+
+    await forEachWithConcurrency(queue, config.concurrency, config.delayMs, async (stock) => {
+      try {
+        const details = await scrapeStockDetail(stock.ticker);
+        if (!details) throw new Error('No details page');
+
+        await storeStockDetail(details);
+      } catch (error: any) {
+        job.errors.push({ ticker: stock.ticker, message: error.message });
+      } finally {
+        job.processed++;
+      }
+    });
+
+    job.phase = 'completed';
+    log(`Classified ${job.processed - job.errors.length} of ${job.total} stocks`, 'enrich');
+  } catch (error: any) {
+    log(`Enrich job ${job.id} failed: ${error.message}`, 'enrich');
+    job.phase = 'failed';
+    job.error = error.message;
+  } finally {
+    job.finishedAt = new Date().toISOString();
+    activeJobId = null;
+  }
+}
+
+/**
+ * Runs `fn` over `items` with at most `concurrency` calls in flight. Each worker
+ * waits `delayMs` between its calls, so requests are spread out over time.
+ */
+export async function forEachWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  delayMs: number,
+  fn: (item: T) => Promise<void>,
+) {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await fn(item);
+      if (delayMs > 0 && next < items.length) {
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+}
+
+function pruneJobs() {
+  for (const id of Array.from(jobs.keys())) {
+    if (jobs.size <= MAX_JOBS) break;
+    if (id !== activeJobId) jobs.delete(id);
+  }
+}
+
+/** Reads a numeric setting; the default applies only when it is unset, and invalid values are logged and ignored */
+function envNumber(name: string, fallback: number, min = 0) {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return fallback;
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min) {
+    log(`Ignoring ${name}="${raw}", expected a number of at least ${min}; using ${fallback}`, 'enrich');
+    return fallback;
+  }
+  return value;
+}
@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Fundamental, StockWithLatestFundamental } from '@shared/schema';
+import { grahamValuation, sortByGrahamUpside } from './graham';
+
+function snapshot(values: Partial<Fundamental>) {
+  return { id: 1, ticker: 'AAAA3', date: '2024-06-01', ...values } as Fundamental;
+}
+
+describe('grahamValuation', () => {
+  it('derives LPA and VPA from price, P/L and P/VP', () => {
+    // LPA 2, VPA 20: √(22.5 × 2 × 20) = 30
+    const graham = grahamValuation(snapshot({ price: 20, pl: 10, pvp: 1 }));
+    assert.equal(graham?.lpa, 2);
+    assert.equal(graham?.vpa, 20);
+    assert.equal(graham?.fairValue, 30);
+    assert.equal(graham?.upside, 50);
+    assert.ok(Math.abs(graham!.marginOfSafety - 100 / 3) < 1e-9);
+  });
+
+  it('falls back to the scraped LPA and VPA', () => {
+    assert.equal(grahamValuation(snapshot({ price: 20, lpa: 2, vpa: 20 }))?.fairValue, 30);
+  });
+
+  it('has no value for losses, negative equity or a missing price', () => {
+    assert.equal(grahamValuation(snapshot({ price: 20, pl: -10, pvp: 1 })), null);
+    assert.equal(grahamValuation(snapshot({ price: 20, pl: 10, pvp: -1 })), null);
+    assert.equal(grahamValuation(snapshot({ pl: 10, pvp: 1 })), null);
+    assert.equal(grahamValuation(null), null);
+  });
+});
+
+describe('sortByGrahamUpside', () => {
+  it('puts the largest upside first and stocks without a valuation last', () => {
+    const sorted = sortByGrahamUpside([
+      { ticker: 'EEEE3' },
+      { ticker: 'AAAA3', graham: { upside: 10 } },
+      { ticker: 'BBBB3', graham: null },
+      { ticker: 'CCCC3', graham: { upside: 80 } },
+      { ticker: 'DDDD3', graham: { upside: -20 } },
+    ] as unknown as StockWithLatestFundamental[]);
+    assert.deepEqual(sorted.map((s) => s.ticker), ['CCCC3', 'AAAA3', 'DDDD3', 'BBBB3', 'EEEE3']);
+  });
+
+  it('orders equal upsides by ticker', () => {
+    const sorted = sortByGrahamUpside([
+      { ticker: 'BBBB3', graham: { upside: 10 } },
+      { ticker: 'AAAA3', graham: { upside: 10 } },
+    ] as unknown as StockWithLatestFundamental[]);
+    assert.deepEqual(sorted.map((s) => s.ticker), ['AAAA3', 'BBBB3']);
+  });
+});
@@ -0,0 +1,34 @@
+import type { Fundamental, GrahamValuation, StockWithLatestFundamental } from "@shared/schema";
+import { descendingNullsLast } from "./compare";
+
+/**
+ * Benjamin Graham's fair value, √(22.5 × LPA × VPA): the price at which P/L × P/VP
+ * equals 22.5 (P/L 15 and P/VP 1.5). LPA and VPA are derived from the price and the
+ * scraped P/L and P/VP, falling back to the ones read from detalhes.php.
+ *
+ * Undefined for loss-making companies and negative equity, where the formula has no meaning.
+ */
+export function grahamValuation(latest: Fundamental | null): GrahamValuation | null {
+  if (!latest?.price) return null;
+
+  const lpa = latest.pl ? latest.price / latest.pl : latest.lpa;
+  const vpa = latest.pvp ? latest.price / latest.pvp : latest.vpa;
+  if (!lpa || !vpa || lpa <= 0 || vpa <= 0) return null;
+
+  const fairValue = Math.sqrt(22.5 * lpa * vpa);
+  return {
+    lpa,
+    vpa,
+    fairValue,
+    marginOfSafety: ((fairValue - latest.price) / fairValue) * 100,
+    upside: ((fairValue - latest.price) / latest.price) * 100,
+  };
+}
+
+/**
+ * Sorts stocks by upside to their Graham number, highest first; stocks without one go
+ * last. Ties, and stocks without a valuation, are ordered by ticker.
+ */
+export function sortByGrahamUpside<T extends StockWithLatestFundamental>(results: T[]): T[] {
+  return results.sort(descendingNullsLast((s) => s.graham?.upside));
+}
@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { rankMagicFormula, isFinancial, companyOf } from './magic-formula';
+
+function stock(ticker: string, sector: string, latest: Record<string, number | null>, subsector: string | null = null) {
+  return { ticker, sector, subsector, latest };
+}
+
+// Fresh copies: the ranking sorts and annotates in place
+function universe() {
+  return [
+    stock('BANK4', 'Intermediários Financeiros', { roic: 90, ebitEv: 0.9, liquidity: 1e8 }, 'Bancos'),
+    stock('AAAA3', 'Mining', { roic: 30, ebitEv: 0.2, liquidity: 5e6, marketCap: 5e9 }),
+    stock('AAAA4', 'Mining', { roic: 30, ebitEv: 0.2, liquidity: 9e6, marketCap: 5e9 }),
+    stock('BBBB3', 'Retail', { roic: 20, ebitEv: 0.3, liquidity: 2e5, marketCap: 1e8 }),
+    stock('CCCC3', 'Utilities', { roic: 10, ebitEv: 0.1, liquidity: 1e7, marketCap: 2e10 }),
+    stock('DDDD3', 'Retail', { roic: null, ebitEv: 0.5, liquidity: 1e7 }),
+    stock('EEEE3', 'Airlines', { roic: -5, ebitEv: -0.1, liquidity: 1e7 }),
+  ];
+}
+
+const ranking = (stocks: any[]) => stocks.map((s) => [s.ticker, s.magicRank]);
+
+describe('rankMagicFormula', () => {
+  it('ranks non-financial stocks with both metrics, breaking ties by EBIT/EV then ticker', () => {
+    assert.deepEqual(ranking(rankMagicFormula(universe())), [
+      ['AAAA3', 3], // ROIC 1 (shared) + EBIT/EV 2 (shared)
+      ['AAAA4', 3],
+      ['BBBB3', 4], // ROIC 3 + EBIT/EV 1
+      ['CCCC3', 8],
+      ['BANK4', null],
+      ['DDDD3', null],
+      ['EEEE3', null],
+    ]);
+  });
+
+  it('ranks missing values last and keeps loss-makers when asked', () => {
+    const ranked = rankMagicFormula(universe(), { dropNulls: false, negativeEbit: 'rank', excludeFinancials: false });
+    assert.deepEqual(ranking(ranked).slice(0, 2), [['BANK4', 2], ['AAAA3', 6]]);
+    assert.equal(ranked.find((s) => s.ticker === 'DDDD3').magicRank, 9, 'missing ROIC ranks 7th of 7, EBIT/EV 2nd');
+    assert.equal(ranked.find((s) => s.ticker === 'EEEE3').magicRank, 13);
+  });
+
+  it('explains each rank with its components and place in the universe', () => {
+    const ranked = rankMagicFormula(universe());
+    assert.deepEqual(ranked.find((s) => s.ticker === 'BBBB3').magicFormula, {
+      roicRank: 3,
+      ebitEvRank: 1,
+      position: 3,
+      universeSize: 4,
+      percentile: 100 / 3,
+    });
+    assert.equal(ranked[0].magicFormula.percentile, 100);
+    assert.equal(ranked.find((s) => s.ticker === 'CCCC3').magicFormula.percentile, 0);
+    assert.equal(ranked.find((s) => s.ticker === 'BANK4').magicFormula, null);
+  });
+
+  it('filters the universe before ranking', () => {
+    const liquid = rankMagicFormula(universe(), { minLiquidity: 1e6, minMarketCap: 1e9 });
+    assert.deepEqual(ranking(liquid).filter(([, rank]) => rank !== null), [['AAAA3', 2], ['AAAA4', 2], ['CCCC3', 6]]);
+
+    const resultadoOnly = universe();
+    resultadoOnly.push(stock('FFFF3', 'Retail', { roic: 15, ebitEv: 0.15, netWorth: 1e9, pvp: 3 }));
+    const large = rankMagicFormula(resultadoOnly, { minMarketCap: 2e9 });
+    assert.notEqual(large.find((s) => s.ticker === 'FFFF3').magicRank, null, 'net worth × P/VP stands in for a missing market cap');
+
+    const noRetail = rankMagicFormula(universe(), { excludeSectors: ['Retail', 'Utilities'] });
+    assert.deepEqual(ranking(noRetail).filter(([, rank]) => rank !== null), [['AAAA3', 2], ['AAAA4', 2]]);
+  });
+
+  it('keeps the most traded share class of each company', () => {
+    const ranked = rankMagicFormula(universe(), { oneClassPerCompany: true });
+    assert.equal(ranked.find((s) => s.ticker === 'AAAA3').magicRank, null);
+    assert.deepEqual(ranking(ranked).slice(0, 2), [['BBBB3', 3], ['AAAA4', 3]], 'equal sums go to the higher EBIT/EV');
+  });
+});
+
+describe('helpers', () => {
+  it('recognises financial sectors in Portuguese and English', () => {
+    assert.ok(isFinancial({ sector: 'Previdência e Seguros', subsector: null }));
+    assert.ok(isFinancial({ sector: 'Banking', subsector: null }));
+    assert.ok(isFinancial({ sector: 'Financeiro', subsector: 'Bancos' }));
+    assert.ok(!isFinancial({ sector: 'Mining', subsector: null }));
+  });
+
+  it('groups share classes by ticker root', () => {
+    assert.equal(companyOf('PETR4'), companyOf('PETR3'));
+    assert.notEqual(companyOf('PETR4'), companyOf('PRIO3'));
+  });
+});
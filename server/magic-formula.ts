@@ -0,0 +1,132 @@
+import type { MagicFormulaOptions, MagicFormulaScore, StockWithLatestFundamental } from "@shared/schema";
+import { definedValues } from "./utils";
+
+export const MAGIC_FORMULA_DEFAULTS: Required<MagicFormulaOptions> = {
+  excludeFinancials: true,
+  excludeSectors: [],
+  minLiquidity: 0,
+  minMarketCap: 0,
+  negativeEbit: 'exclude',
+  dropNulls: true,
+  oneClassPerCompany: false,
+};
+
+// Banks, insurers and other financials: their debt is raw material, so EV/EBIT
+// and ROIC say little about them. Matched against sector and subsector names.
+const FINANCIAL_SECTOR = /financ|banc|bank|segur|insur|previd/i;
+
+export function isFinancial(stock: { sector: string | null; subsector: string | null }) {
+  return FINANCIAL_SECTOR.test(stock.sector ?? '') || FINANCIAL_SECTOR.test(stock.subsector ?? '');
+}
+
+/**
+ * B3 tickers share a four-letter root across share classes (PETR3, PETR4)
+ */
+export function companyOf(ticker: string) {
+  return ticker.slice(0, 4);
+}
+
+/**
+ * Greenblatt's Magic Formula: ranks stocks by ROIC and by EBIT/EV (both descending)
+ * and orders them by the sum of the two ranks, lowest first. Sets `magicRank` on
+ * every stock, with its breakdown in `magicFormula`, and sorts the array in place.
+ *
+ * Only stocks passing `options` are ranked, and ranks are computed over them alone, so
+ * illiquid or excluded tickers never push eligible ones down the ranking. The others get
+ * a null `magicRank` and `magicFormula` and keep their order after the ranked ones.
+ * Equal values share a rank; equal sums are broken by the higher EBIT/EV, then by ticker.
+ */
+export function rankMagicFormula<T extends StockWithLatestFundamental>(results: T[], options: MagicFormulaOptions = {}): T[] {
+  const opts = { ...MAGIC_FORMULA_DEFAULTS, ...definedValues(options) };
+
+  let universe = results.filter((s) => isEligible(s, opts));
+  if (opts.oneClassPerCompany) {
+    universe = mostLiquidClasses(universe);
+  }
+
+  const roicRank = rankBy(universe, (s) => s.latest?.roic);
+  const ebitRank = rankBy(universe, (s) => s.latest?.ebitEv);
+
+  // Combine Ranks (Lower is better)
+  results.forEach((s) => {
+    s.magicRank = roicRank.has(s.ticker) ? roicRank.get(s.ticker)! + ebitRank.get(s.ticker)! : null;
+  });
+
+  results.sort((a, b) => {
+    if (a.magicRank == null || b.magicRank == null) {
+      return (a.magicRank == null ? 1 : 0) - (b.magicRank == null ? 1 : 0);
+    }
+    return a.magicRank - b.magicRank
+      || (b.latest?.ebitEv ?? -Infinity) - (a.latest?.ebitEv ?? -Infinity)
+      || a.ticker.localeCompare(b.ticker);
+  });
+
+  const universeSize = roicRank.size;
+  results.forEach((s, index) => {
+    if (s.magicRank == null) {
+      s.magicFormula = null;
+      return;
+    }
+    const position = index + 1; // Ranked stocks come first
+    s.magicFormula = {
+      roicRank: roicRank.get(s.ticker)!,
+      ebitEvRank: ebitRank.get(s.ticker)!,
+      position,
+      universeSize,
+      percentile: universeSize > 1 ? (100 * (universeSize - position)) / (universeSize - 1) : 100,
+    } satisfies MagicFormulaScore;
+  });
+  return results;
+}
+
+function isEligible(stock: StockWithLatestFundamental, opts: Required<MagicFormulaOptions>) {
+  const roic = stock.latest?.roic;
+  const ebitEv = stock.latest?.ebitEv;
+  const liquidity = stock.latest?.liquidity ?? null;
+  const marketCap = marketCapOf(stock);
+
+  if (opts.excludeFinancials && isFinancial(stock)) return false;
+  if (opts.excludeSectors.includes(stock.sector ?? 'Unknown')) return false;
+  if (opts.minLiquidity > 0 && (liquidity === null || liquidity < opts.minLiquidity)) return false;
+  if (opts.minMarketCap > 0 && (marketCap === null || marketCap < opts.minMarketCap)) return false;
+  if (opts.dropNulls && (roic == null || ebitEv == null)) return false;
+  // Negative EBIT shows up as negative EBIT/EV and ROIC
+  if (opts.negativeEbit === 'exclude' && ((ebitEv ?? 0) < 0 || (roic ?? 0) < 0)) return false;
+  return true;
+}
+
+/**
+ * Market cap from the detail scrape, else derived from resultado.php's net worth and P/VP
+ */
+function marketCapOf(stock: StockWithLatestFundamental): number | null {
+  const latest = stock.latest;
+  if (latest?.marketCap != null) return latest.marketCap;
+  return latest?.netWorth != null && latest.pvp != null ? latest.netWorth * latest.pvp : null;
+}
+
+/**
+ * Keeps the most traded share class of each company
+ */
+function mostLiquidClasses<T extends StockWithLatestFundamental>(stocks: T[]): T[] {
+  const best = new Map<string, T>();
+  for (const stock of stocks) {
+    const current = best.get(companyOf(stock.ticker));
+    if (!current || (stock.latest?.liquidity ?? 0) > (current.latest?.liquidity ?? 0)) {
+      best.set(companyOf(stock.ticker), stock);
+    }
+  }
+  const kept = new Set(best.values());
+  return stocks.filter((stock) => kept.has(stock));
+}
+
+/**
+ * 1 for the highest value; ties share a rank and missing values rank last
+ */
+function rankBy(stocks: StockWithLatestFundamental[], value: (stock: StockWithLatestFundamental) => number | null | undefined) {
+  const values = stocks.map(value).filter((v): v is number => v != null);
+  return new Map(stocks.map((stock) => {
+    const v = value(stock);
+    return [stock.ticker, v == null ? values.length + 1 : 1 + values.filter((other) => other > v).length];
+  }));
+}
+
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MemStorage } from './mem-storage';
+
+// Queries and writes are covered for every backend in storage-parity.test.ts;
+// only the JSON file persistence is specific to MemStorage
+
+function tempFile() {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'mem-storage-')), 'data.json');
+}
+
+describe('MemStorage persistence', () => {
+  it('persists to and reloads from a JSON file', async () => {
+    const file = tempFile();
+    const storage = new MemStorage(file);
+    await storage.createStock({ ticker: 'AAAA3', name: 'Alpha' });
+    await storage.addFundamental({ ticker: 'AAAA3', date: '2024-06-01', pl: 5 });
+    await storage.flush();
+
+    const reloaded = new MemStorage(file);
+    const stocks = await reloaded.getStocks();
+    assert.equal(stocks.length, 1);
+    assert.equal(stocks[0].latest.pl, 5);
+
+    // New ids continue after the persisted ones
+    const next = await reloaded.addFundamental({ ticker: 'AAAA3', date: '2024-07-01' });
+    assert.equal(next.id, 2);
+    await reloaded.flush();
+  });
+
+  it('keeps the scrape run history across restarts', async () => {
+    const file = tempFile();
+    const storage = new MemStorage(file);
+    await storage.createScrapeRun({ trigger: 'schedule', status: 'skipped', startedAt: '2026-10-12T22:00:00.000Z', skipReason: 'B3 holiday' });
+    await storage.flush();
+
+    const reloaded = new MemStorage(file);
+    const [run] = await reloaded.getScrapeRuns();
+    assert.equal(run.skipReason, 'B3 holiday');
+
+    const next = await reloaded.createScrapeRun({ jobId: 'a', trigger: 'manual', status: 'running', startedAt: '2026-10-13T22:00:00.000Z' });
+    assert.equal(next.id, 2);
+    await reloaded.flush();
+  });
+});
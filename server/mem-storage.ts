@@ -0,0 +1,378 @@
+import fs from "fs";
+import path from "path";
+import { getTableColumns } from "drizzle-orm";
+import {
+  fundamentals,
+  type Stock,
+  type InsertStock,
+  type InsertFundamental,
+  type Fundamental,
+  type Price,
+  type InsertPrice,
+  type ScrapeRun,
+  type InsertScrapeRun,
+  type FilterRequest,
+  type FundamentalMetricKey,
+  type DividendSnapshot
+} from "@shared/schema";
+import type { IStorage, SnapshotRow, IngestResult } from "./storage";
+import { seedData } from "./seed";
+import { rankMagicFormula } from "./magic-formula";
+import { grahamValuation, sortByGrahamUpside } from "./graham";
+import { log } from "./log";
+import { definedValues } from "./utils";
+
+// Delay between a change and writing the JSON file, so bulk operations write once
+const SAVE_DELAY_MS = 200;
+
+interface MemState {
+  stocks: Stock[];
+  fundamentals: Fundamental[];
+  prices: Price[];
+  scrapeRuns: ScrapeRun[];
+  nextFundamentalId: number;
+  nextScrapeRunId: number;
+}
+
+/**
+ * IStorage kept in process memory, for running the app and tests without a database.
+ * Mirrors the Postgres constraints that matter to callers: one snapshot per
+ * (ticker, date), fundamentals and prices must reference an existing stock.
+ *
+ * When `file` is given the data is loaded from it on startup and written back
+ * (debounced) after every change.
+ */
+export class MemStorage implements IStorage {
+  private stocks = new Map<string, Stock>();
+  private fundamentals: Fundamental[] = [];
+  private prices = new Map<string, Price>();
+  private scrapeRuns: ScrapeRun[] = [];
+  private nextFundamentalId = 1;
+  private nextScrapeRunId = 1;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly file?: string) {
+    if (file && fs.existsSync(file)) {
+      this.restore(JSON.parse(fs.readFileSync(file, "utf-8")));
+      log(`Loaded ${this.stocks.size} stocks from ${file}`, 'storage');
+    }
+  }
+
+  async getStocks(filters: FilterRequest = {}) {
+    const latestByTicker = new Map<string, Fundamental>();
+    for (const row of this.fundamentals) {
+      const current = latestByTicker.get(row.ticker);
+      if (!current || row.date > current.date || (row.date === current.date && row.id > current.id)) {
+        latestByTicker.set(row.ticker, row);
+      }
+    }
+
+    const search = filters.search?.toLowerCase();
+    const results: any[] = [];
+    for (const stock of this.sortedStocks()) {
+      const latest = latestByTicker.get(stock.ticker);
+      if (!latest) continue;
+      if (search && !stock.ticker.toLowerCase().includes(search) && !stock.name.toLowerCase().includes(search)) continue;
+      if (filters.excludeStateOwned && stock.isStateOwned !== false) continue;
+      if (filters.sector?.length && !filters.sector.includes(stock.sector!)) continue;
+      if (filters.subsector?.length && !filters.subsector.includes(stock.subsector!)) continue;
+      if (!matchesMetricFilters(latest, filters)) continue;
+      results.push({ ...stock, latest, graham: grahamValuation(latest) });
+    }
+
+    // sortedStocks() is alphabetical; re-sort for the requested strategy
+    if (filters.sortBy === 'magic_formula') {
+      rankMagicFormula(results);
+    } else if (filters.sortBy === 'graham_upside') {
+      sortByGrahamUpside(results);
+    }
+
+    return results;
+  }
+
+  async getStock(ticker: string) {
+    const stock = this.stocks.get(ticker);
+    if (!stock) return undefined;
+
+    const history = this.fundamentals
+      .filter((row) => row.ticker === ticker)
+      .sort((a, b) => compare(a.date, b.date));
+
+    return { stock, history };
+  }
+
+  async getPrices(ticker: string, range: { from?: string; to?: string } = {}) {
+    return Array.from(this.prices.values())
+      .filter((row) => row.ticker === ticker)
+      .filter((row) => (!range.from || row.date >= range.from) && (!range.to || row.date <= range.to))
+      .sort((a, b) => compare(a.date, b.date));
+  }
+
+  async getStocksToClassify(classifiedBefore: string) {
+    const cutoff = new Date(classifiedBefore).getTime();
+    return this.sortedStocks().filter((stock) =>
+      !stock.isDemo && (stock.classifiedAt === null || new Date(stock.classifiedAt).getTime() < cutoff));
+  }
+
+  async getDividendHistory(since: string): Promise<DividendSnapshot[]> {
+    return this.fundamentals
+      .filter((row) => row.date >= since && row.price !== null && row.divYield !== null)
+      .sort((a, b) => compare(a.ticker, b.ticker) || compare(a.date, b.date))
+      .map(({ ticker, date, price, divYield }) => ({ ticker, date, price, divYield }));
+  }
+
+  async getBalanceSheets(since: string) {
+    return this.fundamentals
+      .filter((row) => row.date >= since && row.totalAssets != null)
+      .sort((a, b) => compare(a.ticker, b.ticker) || compare(a.date, b.date));
+  }
+
+  async createStock(stock: InsertStock) {
+    if (this.stocks.has(stock.ticker)) {
+      throw new Error(`Stock ${stock.ticker} already exists`);
+    }
+    const row = this.putStock(stock);
+    this.scheduleSave();
+    return row;
+  }
+
+  async addFundamental(data: InsertFundamental) {
+    this.assertStockExists(data.ticker);
+    if (this.findFundamental(data.ticker, data.date)) {
+      throw new Error(`Fundamentals for ${data.ticker} on ${data.date} already exist`);
+    }
+    const row = this.insertFundamental(data);
+    this.scheduleSave();
+    return row;
+  }
+
+  async upsertStock(stock: InsertStock) {
+    const existing = this.stocks.get(stock.ticker);
+    const row = existing ? Object.assign(existing, definedValues(stock)) : this.putStock(stock);
+    this.scheduleSave();
+    return row;
+  }
+
+  async upsertFundamental(data: InsertFundamental) {
+    this.assertStockExists(data.ticker);
+    const existing = this.findFundamental(data.ticker, data.date);
+    const row = existing ? Object.assign(existing, definedValues(data)) : this.insertFundamental(data);
+    this.scheduleSave();
+    return row;
+  }
+
+  async upsertPrice(data: InsertPrice) {
+    this.assertStockExists(data.ticker);
+    const row = { ...data };
+    this.prices.set(priceKey(row.ticker, row.date), row);
+    this.scheduleSave();
+    return row;
+  }
+
+  /**
+   * Same semantics as DatabaseStorage.ingestSnapshot; a failure restores the
+   * state from before the call.
+   */
+  async ingestSnapshot(rows: SnapshotRow[], onBatch?: (tickers: string[]) => void) {
+    const result: IngestResult = { stocksCreated: 0, stocksUpdated: 0, fundamentalsCreated: 0, fundamentalsUpdated: 0 };
+    if (rows.length === 0) return result;
+
+    const { ticker: _ticker, date: _date, ...metrics } = rows[0].fundamental;
+    const metricKeys = Object.keys(metrics) as Exclude<keyof InsertFundamental, 'ticker' | 'date'>[];
+
+    const before = this.snapshot();
+    try {
+      this.deleteDemoData();
+
+      for (const row of rows) {
+        const stock = this.stocks.get(row.stock.ticker);
+        if (stock) {
+          stock.name = row.stock.name;
+          stock.isStateOwned = row.stock.isStateOwned ?? false;
+          result.stocksUpdated++;
+        } else {
+          this.putStock(row.stock);
+          result.stocksCreated++;
+        }
+
+        this.assertStockExists(row.fundamental.ticker);
+        const fundamental = this.findFundamental(row.fundamental.ticker, row.fundamental.date);
+        if (fundamental) {
+          for (const key of metricKeys) {
+            fundamental[key] = row.fundamental[key] ?? null;
+          }
+          result.fundamentalsUpdated++;
+        } else {
+          this.insertFundamental(row.fundamental);
+          result.fundamentalsCreated++;
+        }
+
+        if (row.price) {
+          this.assertStockExists(row.price.ticker);
+          this.prices.set(priceKey(row.price.ticker, row.price.date), { ...row.price });
+        }
+      }
+    } catch (error) {
+      this.restore(before);
+      throw error;
+    }
+
+    onBatch?.(rows.map((row) => row.stock.ticker));
+    this.scheduleSave();
+    return result;
+  }
+
+  async createScrapeRun(data: InsertScrapeRun) {
+    const run: ScrapeRun = {
+      id: this.nextScrapeRunId++,
+      jobId: null,
+      finishedAt: null,
+      scraped: null,
+      stocksCreated: null,
+      stocksUpdated: null,
+      fundamentalsCreated: null,
+      fundamentalsUpdated: null,
+      skipReason: null,
+      error: null,
+      tickerErrors: [],
+      ...definedValues(data),
+    };
+    this.scrapeRuns.push(run);
+    this.scheduleSave();
+    return run;
+  }
+
+  async updateScrapeRun(id: number, data: Partial<InsertScrapeRun>) {
+    const run = this.scrapeRuns.find((row) => row.id === id);
+    if (!run) throw new Error(`Scrape run ${id} not found`);
+    Object.assign(run, definedValues(data));
+    this.scheduleSave();
+    return run;
+  }
+
+  async getScrapeRuns(limit = 50) {
+    return [...this.scrapeRuns]
+      .sort((a, b) => compare(b.startedAt, a.startedAt))
+      .slice(0, limit);
+  }
+
+  async seedData() {
+    await seedData(this);
+  }
+
+  /** Writes pending changes to the JSON file right away */
+  async flush() {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.file) return;
+
+    await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+    // Write then rename, so a crash mid-write never leaves a truncated file
+    const tmp = `${this.file}.tmp`;
+    await fs.promises.writeFile(tmp, JSON.stringify(this.snapshot()));
+    await fs.promises.rename(tmp, this.file);
+  }
+
+  private scheduleSave() {
+    if (!this.file || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.flush().catch((error) => log(`Could not save ${this.file}: ${error.message}`, 'storage'));
+    }, SAVE_DELAY_MS);
+  }
+
+  private snapshot(): MemState {
+    return structuredClone({
+      stocks: Array.from(this.stocks.values()),
+      fundamentals: this.fundamentals,
+      prices: Array.from(this.prices.values()),
+      scrapeRuns: this.scrapeRuns,
+      nextFundamentalId: this.nextFundamentalId,
+      nextScrapeRunId: this.nextScrapeRunId,
+    });
+  }
+
+  private restore(state: MemState) {
+    // Files written by older versions lack the newer stock columns
+    this.stocks = new Map(state.stocks.map((row) => [
+      row.ticker,
+      { ...row, isDemo: row.isDemo ?? false, classifiedAt: row.classifiedAt ?? null },
+    ]));
+    this.fundamentals = state.fundamentals;
+    this.prices = new Map(state.prices.map((row) => [priceKey(row.ticker, row.date), row]));
+    this.scrapeRuns = state.scrapeRuns;
+    this.nextFundamentalId = state.nextFundamentalId;
+    this.nextScrapeRunId = state.nextScrapeRunId;
+  }
+
+  // Demo stocks go with their fundamentals and prices
+  private deleteDemoData() {
+    const demo = new Set(Array.from(this.stocks.values()).filter((row) => row.isDemo).map((row) => row.ticker));
+    if (demo.size === 0) return;
+
+    demo.forEach((ticker) => this.stocks.delete(ticker));
+    this.fundamentals = this.fundamentals.filter((row) => !demo.has(row.ticker));
+    for (const [key, row] of Array.from(this.prices)) {
+      if (demo.has(row.ticker)) this.prices.delete(key);
+    }
+  }
+
+  private sortedStocks() {
+    return Array.from(this.stocks.values()).sort((a, b) => compare(a.ticker, b.ticker));
+  }
+
+  private putStock(stock: InsertStock) {
+    const row: Stock = { sector: null, subsector: null, isStateOwned: false, isDemo: false, classifiedAt: null, ...definedValues(stock) };
+    this.stocks.set(row.ticker, row);
+    return row;
+  }
+
+  private insertFundamental(data: InsertFundamental) {
+    const row = { ...emptyFundamental(), ...definedValues(data), id: this.nextFundamentalId++ } as Fundamental;
+    this.fundamentals.push(row);
+    return row;
+  }
+
+  private findFundamental(ticker: string, date: string) {
+    return this.fundamentals.find((row) => row.ticker === ticker && row.date === date);
+  }
+
+  private assertStockExists(ticker: string) {
+    if (!this.stocks.has(ticker)) {
+      throw new Error(`Stock ${ticker} does not exist`);
+    }
+  }
+}
+
+// Same rules as the SQL filters: a missing (null) metric never passes a bound
+function matchesMetricFilters(latest: Fundamental, filters: FilterRequest) {
+  const min: [FundamentalMetricKey, number | undefined][] = [
+    ['roe', filters.minRoe],
+    ['divYield', filters.minDivYield],
+    ['liquidity', filters.minLiquidity],
+    ...Object.entries(filters.min ?? {}) as [FundamentalMetricKey, number][],
+  ];
+  const max: [FundamentalMetricKey, number | undefined][] = [
+    ['pl', filters.maxPl],
+    ['pvp', filters.maxPvp],
+    ...Object.entries(filters.max ?? {}) as [FundamentalMetricKey, number][],
+  ];
+
+  return min.every(([key, bound]) => bound === undefined || (latest[key] !== null && latest[key]! >= bound))
+    && max.every(([key, bound]) => bound === undefined || (latest[key] !== null && latest[key]! <= bound));
+}
+
+function emptyFundamental() {
+  return Object.fromEntries(Object.keys(getTableColumns(fundamentals)).map((key) => [key, null]));
+}
+
+
+function priceKey(ticker: string, date: string) {
+  return `${ticker}|${date}`;
+}
+
+function compare(a: string, b: string) {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
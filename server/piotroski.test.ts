@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { piotroskiMaxScore, type Fundamental } from '@shared/schema';
+import { piotroskiScore, scorePiotroski } from './piotroski';
+
+function sheet(date: string, values: Partial<Fundamental>) {
+  return { ticker: 'AAAA3', date, totalAssets: 1_000, netIncome12m: 100, ...values } as Fundamental;
+}
+
+const lastYear = sheet('2023-06-01', {
+  grossDebt: 400, currentLiquidity: 1.2, sharesOutstanding: 500, grossMargin: 30, revenue12m: 800,
+});
+const thisYear = sheet('2024-06-01', {
+  netIncome12m: 120, grossDebt: 300, currentLiquidity: 1.5, sharesOutstanding: 500, grossMargin: 32, assetTurnover: 0.9,
+});
+
+describe('piotroskiScore', () => {
+  it('scores the latest balance sheet against the one a year earlier', () => {
+    const score = piotroskiScore([thisYear, lastYear]);
+    assert.equal(score?.date, '2024-06-01');
+    assert.equal(score?.comparedTo, '2023-06-01');
+    assert.deepEqual(score?.criteria, {
+      roa: true,
+      operatingCashFlow: null,
+      roaChange: true,
+      accruals: null,
+      leverageChange: true,
+      currentRatioChange: true,
+      noDilution: true,
+      grossMarginChange: true,
+      assetTurnoverChange: true, // 0.9 scraped against 800 / 1000 derived
+    });
+    assert.equal(score?.score, piotroskiMaxScore, 'every criterion the data can judge passes');
+    assert.equal(score?.evaluated, piotroskiMaxScore);
+  });
+
+  it('fails criteria that got worse', () => {
+    const worse = sheet('2024-06-01', { netIncome12m: -10, grossDebt: 500, sharesOutstanding: 600, grossMargin: 30 });
+    const score = piotroskiScore([lastYear, worse]);
+    assert.equal(score?.criteria.roa, false);
+    assert.equal(score?.criteria.leverageChange, false);
+    assert.equal(score?.criteria.noDilution, false);
+    assert.equal(score?.criteria.grossMarginChange, false, 'an unchanged margin is no improvement');
+    assert.equal(score?.criteria.currentRatioChange, null, 'missing figures are not judged');
+    assert.equal(score?.score, 0);
+  });
+
+  it('only judges the level criteria without a snapshot a year older', () => {
+    const recent = sheet('2024-03-01', { netIncome12m: 50 });
+    const score = piotroskiScore([recent, thisYear]);
+    assert.equal(score?.comparedTo, null);
+    assert.equal(score?.evaluated, 1);
+    assert.equal(score?.score, 1);
+  });
+
+  it('has no score without a balance sheet', () => {
+    assert.equal(piotroskiScore([sheet('2024-06-01', { totalAssets: null })]), null);
+  });
+});
+
+describe('scorePiotroski', () => {
+  it('scores every stock and drops those below the minimum', () => {
+    const stocks = () => [{ ticker: 'AAAA3' }, { ticker: 'BBBB3' }];
+    const sheets = [lastYear, thisYear];
+
+    const all = scorePiotroski(stocks(), sheets);
+    assert.equal(all.length, 2);
+    assert.equal(all[0].fScore.score, 7);
+    assert.equal(all[1].fScore, null);
+
+    assert.deepEqual(scorePiotroski(stocks(), sheets, 7).map((s) => s.ticker), ['AAAA3']);
+    assert.deepEqual(scorePiotroski(stocks(), sheets, 8), []);
+  });
+});
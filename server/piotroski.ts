@@ -0,0 +1,89 @@
+import type { Fundamental, PiotroskiCriterion, PiotroskiScore, StockWithLatestFundamental } from "@shared/schema";
+
+// Trailing 12-month figures are compared year over year, as Piotroski did with
+// annual statements; a snapshot this much older counts as the previous year
+const MIN_DAYS_APART = 330;
+
+// How far back the list endpoint loads balance sheets: the latest plus one a year earlier
+export const PIOTROSKI_LOOKBACK_DAYS = 2 * 365;
+
+/**
+ * Piotroski's nine-point F-score for the latest snapshot carrying the detalhes.php
+ * balance sheet, compared with the latest one at least a year older.
+ *
+ * fundamentus publishes no cash flow statement, so the operating cash flow and
+ * accruals criteria are never evaluated and the score tops out at 7. Other
+ * criteria are skipped (null) when a figure is missing, e.g. gross margin for banks.
+ */
+export function piotroskiScore(history: Fundamental[]): PiotroskiScore | null {
+  const sheets = history
+    .filter((row) => row.totalAssets && row.netIncome12m != null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (sheets.length === 0) return null;
+
+  const current = sheets[sheets.length - 1];
+  const cutoff = new Date(new Date(current.date).getTime() - MIN_DAYS_APART * 24 * 60 * 60 * 1000)
+    .toISOString().split('T')[0];
+  const previous = [...sheets].reverse().find((row) => row.date <= cutoff);
+
+  const change = (value: (row: Fundamental) => number | null, test: (current: number, previous: number) => boolean) => {
+    if (!previous) return null;
+    const [now, before] = [value(current), value(previous)];
+    return now == null || before == null ? null : test(now, before);
+  };
+
+  const currentRoa = roa(current);
+  const criteria: Record<PiotroskiCriterion, boolean | null> = {
+    roa: currentRoa == null ? null : currentRoa > 0,
+    operatingCashFlow: null,
+    roaChange: change(roa, (now, before) => now > before),
+    accruals: null,
+    leverageChange: change(leverage, (now, before) => now === 0 || now < before),
+    currentRatioChange: change((row) => row.currentLiquidity, (now, before) => now > before),
+    noDilution: change((row) => row.sharesOutstanding, (now, before) => now <= before),
+    grossMarginChange: change((row) => row.grossMargin, (now, before) => now > before),
+    assetTurnoverChange: change(assetTurnover, (now, before) => now > before),
+  };
+
+  const results = Object.values(criteria);
+  return {
+    score: results.filter((passed) => passed === true).length,
+    evaluated: results.filter((passed) => passed !== null).length,
+    date: current.date,
+    comparedTo: previous?.date ?? null,
+    criteria,
+  };
+}
+
+/**
+ * Sets `fScore` on every stock from its balance sheet snapshots. With a
+ * `minFScore` above 0, stocks scoring lower, or without a score, are dropped.
+ */
+export function scorePiotroski<T extends StockWithLatestFundamental>(results: T[], balanceSheets: Fundamental[], minFScore = 0): T[] {
+  const byTicker = new Map<string, Fundamental[]>();
+  for (const row of balanceSheets) {
+    byTicker.set(row.ticker, [...(byTicker.get(row.ticker) ?? []), row]);
+  }
+
+  results.forEach((s) => {
+    s.fScore = piotroskiScore(byTicker.get(s.ticker) ?? []);
+  });
+  if (minFScore === 0) return results;
+  return results.filter((s) => s.fScore != null && s.fScore.score >= minFScore);
+}
+
+function roa(row: Fundamental) {
+  if (row.netIncome12m == null || !row.totalAssets) return null;
+  return row.netIncome12m / row.totalAssets;
+}
+
+function leverage(row: Fundamental) {
+  if (row.grossDebt == null || !row.totalAssets) return null;
+  return row.grossDebt / row.totalAssets;
+}
+
+function assetTurnover(row: Fundamental) {
+  if (row.assetTurnover != null) return row.assetTurnover;
+  if (row.revenue12m == null || !row.totalAssets) return null;
+  return row.revenue12m / row.totalAssets;
+}
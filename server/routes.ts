@@ -2,9 +2,49 @@ import type { Express } from "express";
 import type { Server } from "http";
 import { storage } from "./storage";
 import { api } from "@shared/routes";
+import { fundamentalMetricKeys, type MagicFormulaRanked, type MetricBounds, type StockWithHistory } from "@shared/schema";
 import { z } from "zod";
-import { scrapeFundamentus, isLikelyStateOwned, scrapeStockDetail } from "./scraper";
-import { log } from "./index";
+import { scrapeStockDetail } from "./scraper";
+import { storeStockDetail } from "./scrape-pipeline";
+import { startScrapeJob, getScrapeJob } from "./scrape-jobs";
+import { startEnrichJob, getEnrichJob } from "./enrich-jobs";
+import { summarizeSectors, describeSector, findPeers } from "./sectors";
+import { rankMagicFormula } from "./magic-formula";
+import { bazinValuation, rankBazin, BAZIN_DEFAULTS } from "./bazin";
+import { piotroskiScore, scorePiotroski, PIOTROSKI_LOOKBACK_DAYS } from "./piotroski";
+import { getScheduleStatus, isScheduleEnabled, pauseSchedule, resumeSchedule, runScheduledScrape } from "./scheduler";
+import { log } from "./log";
+
+/**
+ * Parses `min[metric]=value` / `max[metric]=value` query objects,
+ * ignoring unknown metrics and non-numeric values
+ */
+function parseMetricBounds(value: unknown): MetricBounds | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+
+  const bounds: MetricBounds = {};
+  for (const key of fundamentalMetricKeys) {
+    const raw = (value as Record<string, unknown>)[key];
+    if (raw === undefined || raw === '' || isNaN(Number(raw))) continue;
+    bounds[key] = Number(raw);
+  }
+  return bounds;
+}
+
+/**
+ * Parses an optional 'true' / 'false' query param
+ */
+function parseFlag(value: 'true' | 'false' | undefined): boolean | undefined {
+  return value === undefined ? undefined : value === 'true';
+}
+
+/**
+ * Parses a repeatable query param (`sector=A&sector=B`) into a list
+ */
+function parseList(value: unknown): string[] | undefined {
+  const values = (Array.isArray(value) ? value : [value]).filter((v): v is string => typeof v === 'string' && v !== '');
+  return values.length > 0 ? values : undefined;
+}
 
 export async function registerRoutes(
   httpServer: Server,
@@ -12,6 +52,11 @@ export async function registerRoutes(
 ): Promise<Server> {
 
   app.get(api.stocks.list.path, async (req, res) => {
+    const fScoreFilter = api.stocks.list.input.unwrap().shape.minFScore.safeParse(req.query.minFScore);
+    if (!fScoreFilter.success) {
+      return res.status(400).json({ message: `minFScore: ${fScoreFilter.error.errors[0].message}` });
+    }
+
     try {
         const filters = {
             search: req.query.search as string,
@@ -19,100 +64,208 @@ export async function registerRoutes(
             minRoe: req.query.minRoe ? Number(req.query.minRoe) : undefined,
             maxPvp: req.query.maxPvp ? Number(req.query.maxPvp) : undefined,
             minDivYield: req.query.minDivYield ? Number(req.query.minDivYield) : undefined,
+            minLiquidity: req.query.minLiquidity ? Number(req.query.minLiquidity) : undefined,
             excludeStateOwned: req.query.excludeStateOwned === 'true',
+            sector: parseList(req.query.sector),
+            subsector: parseList(req.query.subsector),
+            min: parseMetricBounds(req.query.min),
+            max: parseMetricBounds(req.query.max),
             sortBy: req.query.sortBy as any,
         };
-        const stocks = await storage.getStocks(filters);
-        res.json(stocks);
+        const minFScore = fScoreFilter.data ?? 0;
+        if (minFScore === 0) {
+          return res.json(await storage.getStocks(filters));
+        }
+
+        // Balance sheet history is only loaded when filtering by F-score
+        const since = new Date(Date.now() - PIOTROSKI_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+        const [stocks, balanceSheets] = await Promise.all([storage.getStocks(filters), storage.getBalanceSheets(since)]);
+        res.json(scorePiotroski(stocks, balanceSheets, minFScore));
     } catch (e) {
         res.status(500).json({ message: "Internal Server Error" });
     }
   });
 
+  app.get(api.sectors.list.path, async (req, res) => {
+    try {
+      res.json(summarizeSectors(await storage.getStocks()));
+    } catch (e) {
+      res.status(500).json({ message: "Internal Server Error" });
+    }
+  });
+
+  app.get(api.sectors.get.path, async (req, res) => {
+    try {
+      const detail = describeSector(await storage.getStocks(), req.params.sector);
+      if (!detail) {
+        return res.status(404).json({ message: 'Sector not found' });
+      }
+      res.json(detail);
+    } catch (e) {
+      res.status(500).json({ message: "Internal Server Error" });
+    }
+  });
+
+  app.get(api.strategies.magicFormula.path, async (req, res) => {
+    const parsed = api.strategies.magicFormula.input.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    try {
+      const query = parsed.data;
+      const stocks = rankMagicFormula(await storage.getStocks(), {
+        excludeFinancials: parseFlag(query.excludeFinancials),
+        excludeSectors: parseList(query.excludeSectors),
+        minLiquidity: query.minLiquidity,
+        minMarketCap: query.minMarketCap,
+        negativeEbit: query.negativeEbit,
+        dropNulls: parseFlag(query.dropNulls),
+        oneClassPerCompany: parseFlag(query.oneClassPerCompany),
+      });
+      res.json(stocks.filter((stock): stock is MagicFormulaRanked => stock.magicRank != null));
+    } catch (e) {
+      res.status(500).json({ message: "Internal Server Error" });
+    }
+  });
+
+  app.get(api.strategies.bazin.path, async (req, res) => {
+    const parsed = api.strategies.bazin.input.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    try {
+      const options = { ...BAZIN_DEFAULTS, ...parsed.data };
+      const since = `${new Date().getFullYear() - options.years}-01-01`;
+      const [stocks, history] = await Promise.all([storage.getStocks(), storage.getDividendHistory(since)]);
+      res.json(rankBazin(stocks, history, options));
+    } catch (e) {
+      res.status(500).json({ message: "Internal Server Error" });
+    }
+  });
+
   app.get(api.stocks.get.path, async (req, res) => {
     const data = await storage.getStock(req.params.ticker);
     if (!data) {
       return res.status(404).json({ message: 'Stock not found' });
     }
-    res.json(data);
+    const price = [...data.history].reverse().find((row) => row.price !== null)?.price;
+    res.json({ ...data, bazin: bazinValuation(data.history, price), fScore: piotroskiScore(data.history) } satisfies StockWithHistory);
   });
 
-  // Scrape endpoint
-  app.post('/api/scrape', async (req, res) => {
+  app.get(api.stocks.peers.path, async (req, res) => {
     try {
-      log('Starting scrape process...', 'scraper');
-      
-      const scrapedStocks = await scrapeFundamentus();
-      
-      if (scrapedStocks.length === 0) {
-        return res.status(500).json({ 
-          message: 'No stocks found. The scraper may need to be updated.',
-          scraped: 0 
-        });
+      const data = await storage.getStock(req.params.ticker);
+      if (!data) {
+        return res.status(404).json({ message: 'Stock not found' });
       }
+      res.json(findPeers(data.stock, await storage.getStocks()));
+    } catch (e) {
+      res.status(500).json({ message: "Internal Server Error" });
+    }
+  });
 
-      const today = new Date().toISOString().split('T')[0];
-      let stocksCreated = 0;
-      let stocksUpdated = 0;
-      let fundamentalsCreated = 0;
-
-      // Process each scraped stock
-      for (const scraped of scrapedStocks) {
-        try {
-          // Upsert stock
-          const stock = await storage.upsertStock({
-            ticker: scraped.ticker,
-            name: scraped.name,
-            sector: scraped.sector || 'Unknown',
-            subsector: null,
-            isStateOwned: isLikelyStateOwned(scraped.name, scraped.ticker),
-          });
-
-          // Check if stock was just created or updated
-          const existing = await storage.getStock(scraped.ticker);
-          if (existing && existing.history.length === 0) {
-            stocksCreated++;
-          } else {
-            stocksUpdated++;
-          }
-
-          // Upsert fundamental data for today
-          await storage.upsertFundamental({
-            ticker: scraped.ticker,
-            date: today,
-            pl: scraped.pl,
-            roe: scraped.roe,
-            pvp: scraped.pvp,
-            divYield: scraped.divYield,
-            netProfit: scraped.netProfit,
-            ebitEv: scraped.ebitEv ? 1 / scraped.ebitEv : null, // fundamentus shows EV/EBIT, we store EBIT/EV
-            roic: scraped.roic,
-          });
-
-          fundamentalsCreated++;
-        } catch (e) {
-          log(`Error processing stock ${scraped.ticker}: ${e}`, 'scraper');
-        }
-      }
+  app.get(api.stocks.prices.path, async (req, res) => {
+    const parsed = api.stocks.prices.input.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
 
-      log(`Scrape completed: ${scrapedStocks.length} stocks processed`, 'scraper');
-      
-      res.json({
-        message: 'Scraping completed successfully',
-        scraped: scrapedStocks.length,
-        stocksCreated,
-        stocksUpdated,
-        fundamentalsCreated,
-      });
-    } catch (error: any) {
-      log(`Scraping failed: ${error.message}`, 'scraper');
-      res.status(500).json({ 
-        message: 'Failed to scrape data', 
-        error: error.message 
-      });
+    try {
+      const history = await storage.getPrices(req.params.ticker.toUpperCase(), parsed.data);
+      res.json(history);
+    } catch (e) {
+      res.status(500).json({ message: "Internal Server Error" });
+    }
+  });
+
+  // Scrape endpoint: runs in the background, poll the returned job for progress
+  app.post(api.stocks.scrape.path, (req, res) => {
+    const job = startScrapeJob('manual');
+    res.status(202).json({
+      message: job.phase === 'queued' ? 'Scrape started' : 'A scrape is already running',
+      job,
+    });
+  });
+
+  app.get(api.stocks.scrapeJob.path, (req, res) => {
+    const job = getScrapeJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: 'Scrape job not found' });
+    }
+    res.json(job);
+  });
+
+  app.get(api.stocks.scrapeRuns.path, async (req, res) => {
+    const limit = req.query.limit ? Number(req.query.limit) : undefined;
+    try {
+      const runs = await storage.getScrapeRuns(limit && limit > 0 ? limit : undefined);
+      res.json(runs);
+    } catch (e) {
+      res.status(500).json({ message: "Internal Server Error" });
+    }
+  });
+
+  // Sector classification for all stocks: runs in the background like the scrape
+  app.post(api.stocks.enrich.path, (req, res) => {
+    const parsed = api.stocks.enrich.input.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    const job = startEnrichJob(parsed.data.maxAgeDays);
+    res.status(202).json({
+      message: job.phase === 'queued' ? 'Classification started' : 'A classification is already running',
+      job,
+    });
+  });
+
+  app.get(api.stocks.enrichJob.path, (req, res) => {
+    const job = getEnrichJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: 'Enrich job not found' });
+    }
+    res.json(job);
+  });
+
+  // Scrape schedule administration
+  app.get(api.admin.schedule.path, async (req, res) => {
+    try {
+      res.json(await getScheduleStatus());
+    } catch (e) {
+      res.status(500).json({ message: "Internal Server Error" });
     }
   });
 
+  app.post(api.admin.pauseSchedule.path, async (req, res) => {
+    if (!isScheduleEnabled()) {
+      return res.status(409).json({ message: 'Scheduled scraping is not configured (set SCRAPE_CRON)' });
+    }
+    try {
+      pauseSchedule();
+      res.json(await getScheduleStatus());
+    } catch (e) {
+      res.status(500).json({ message: "Internal Server Error" });
+    }
+  });
+
+  app.post(api.admin.resumeSchedule.path, async (req, res) => {
+    if (!isScheduleEnabled()) {
+      return res.status(409).json({ message: 'Scheduled scraping is not configured (set SCRAPE_CRON)' });
+    }
+    try {
+      resumeSchedule();
+      res.json(await getScheduleStatus());
+    } catch (e) {
+      res.status(500).json({ message: "Internal Server Error" });
+    }
+  });
+
+  app.post(api.admin.triggerSchedule.path, (req, res) => {
+    res.status(202).json(runScheduledScrape('manual'));
+  });
+
   // Scrape details for a specific stock
   app.post('/api/scrape/:ticker', async (req, res) => {
     try {
@@ -127,14 +280,7 @@ export async function registerRoutes(
         });
       }
 
-      // Update stock with detailed information
-      await storage.upsertStock({
-        ticker: details.ticker,
-        name: details.name,
-        sector: details.sector,
-        subsector: details.subsector,
-        isStateOwned: isLikelyStateOwned(details.name, details.ticker),
-      });
+      await storeStockDetail(details);
 
       log(`Updated details for ${ticker}`, 'scraper');
       
@@ -151,8 +297,10 @@ export async function registerRoutes(
     }
   });
 
-  // Seed data on startup (only if no data exists)
-  await storage.seedData();
+  // Demo data is opt-in and only seeded into an empty database
+  if (process.env.SEED_DEMO_DATA === 'true') {
+    await storage.seedData();
+  }
 
   return httpServer;
 }
@@ -0,0 +1,127 @@
+import { Cron } from "croner";
+import type { ScheduleStatus, ScheduledRun, ScrapeJobPhase, ScrapeRun } from "@shared/schema";
+import { startScrapeJob, getScrapeJob, getActiveScrapeJob } from "./scrape-jobs";
+import { dateInTimezone, nonTradingReason } from "./b3-calendar";
+import { storage } from "./storage";
+import { log } from "./log";
+
+// Recent runs listed by the admin endpoint
+const MAX_RUNS = 50;
+
+const config = {
+  cron: process.env.SCRAPE_CRON || null,
+  timezone: process.env.SCRAPE_TIMEZONE || 'America/Sao_Paulo',
+  skipNonTradingDays: process.env.SCRAPE_SKIP_NON_TRADING_DAYS !== 'false',
+};
+
+let cron: Cron | null = null;
+
+/**
+ * Starts the in-process scrape schedule when SCRAPE_CRON is set
+ */
+export function startScheduler() {
+  if (!config.cron) {
+    log('SCRAPE_CRON not set, scheduled scraping disabled', 'scheduler');
+    return;
+  }
+
+  try {
+    cron = new Cron(config.cron, { timezone: config.timezone, name: 'scrape' }, () => {
+      runScheduledScrape('schedule');
+    });
+  } catch (error: any) {
+    log(`Invalid SCRAPE_CRON "${config.cron}": ${error.message}`, 'scheduler');
+    return;
+  }
+
+  log(`Scheduled scraping "${config.cron}" (${config.timezone}), next run ${cron.nextRun()?.toISOString()}`, 'scheduler');
+}
+
+/**
+ * Starts a scrape job for the schedule, unless B3 is closed today or a scrape is
+ * already running. Manual triggers ignore the calendar. The started job records
+ * its own scrape run; a skipped run is recorded here.
+ */
+export function runScheduledScrape(trigger: ScheduledRun['trigger']): ScheduledRun {
+  const now = new Date();
+  const run: ScheduledRun = { trigger, at: now.toISOString(), jobId: null, skipped: null };
+
+  const active = getActiveScrapeJob();
+  const reason = trigger === 'schedule' && config.skipNonTradingDays
+    ? nonTradingReason(dateInTimezone(now, config.timezone))
+    : null;
+
+  if (reason) {
+    run.skipped = reason;
+  } else if (active) {
+    run.jobId = active.id;
+    run.skipped = `Scrape job ${active.id} was already running`;
+  } else {
+    run.jobId = startScrapeJob(trigger).id;
+    log(`Started ${trigger} scrape job ${run.jobId}`, 'scheduler');
+    return run;
+  }
+
+  log(`Skipping ${trigger} scrape: ${run.skipped}`, 'scheduler');
+  void recordSkippedRun(run);
+  return run;
+}
+
+// Best effort, like the scrape job's own run history
+async function recordSkippedRun(run: ScheduledRun) {
+  try {
+    await storage.createScrapeRun({
+      jobId: run.jobId,
+      trigger: run.trigger,
+      status: 'skipped',
+      startedAt: run.at,
+      finishedAt: run.at,
+      skipReason: run.skipped,
+    });
+  } catch (error: any) {
+    log(`Could not record skipped ${run.trigger} scrape: ${error.message}`, 'scheduler');
+  }
+}
+
+export function pauseSchedule(): boolean {
+  return cron?.pause() ?? false;
+}
+
+export function resumeSchedule(): boolean {
+  return cron?.resume() ?? false;
+}
+
+export function isScheduleEnabled(): boolean {
+  return cron !== null;
+}
+
+/**
+ * Schedule configuration plus the recent runs stored in scrape_runs, so the
+ * history survives restarts
+ */
+export async function getScheduleStatus(): Promise<ScheduleStatus> {
+  const runs = await storage.getScrapeRuns(MAX_RUNS);
+  return {
+    ...config,
+    enabled: isScheduleEnabled(),
+    paused: cron !== null && !cron.isRunning(),
+    nextRun: cron?.isRunning() ? cron.nextRun()?.toISOString() ?? null : null,
+    runs: runs.map((run) => ({
+      trigger: run.trigger,
+      at: run.startedAt,
+      jobId: run.jobId,
+      skipped: run.skipReason,
+      phase: phaseOf(run),
+    })),
+  };
+}
+
+/**
+ * Live phase while the job is still in memory, else the phase the stored run ended in
+ */
+function phaseOf(run: ScrapeRun): ScrapeJobPhase | null {
+  if (run.status === 'skipped') return null;
+  const job = run.jobId ? getScrapeJob(run.jobId) : undefined;
+  if (job) return job.phase;
+  return run.status === 'running' ? null : run.status;
+}
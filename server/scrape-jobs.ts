@@ -0,0 +1,132 @@
+import { randomUUID } from "crypto";
+import type { ScrapeJob, ScrapeTrigger } from "@shared/schema";
+import { runScrapePipeline } from "./scrape-pipeline";
+import { storage } from "./storage";
+import { ScraperLayoutError } from "./scraper";
+import { log } from "./log";
+
+// Finished jobs kept around for polling clients
+const MAX_JOBS = 20;
+
+const jobs = new Map<string, ScrapeJob>();
+let activeJobId: string | null = null;
+
+export function getScrapeJob(id: string): ScrapeJob | undefined {
+  return jobs.get(id);
+}
+
+export function getActiveScrapeJob(): ScrapeJob | undefined {
+  return activeJobId ? jobs.get(activeJobId) : undefined;
+}
+
+/**
+ * Starts a scrape in the background and returns its job immediately.
+ * Only one scrape runs at a time: while one is in progress its job is returned instead.
+ */
+export function startScrapeJob(trigger: ScrapeTrigger): ScrapeJob {
+  const active = getActiveScrapeJob();
+  if (active) return active;
+
+  const job: ScrapeJob = {
+    id: randomUUID(),
+    runId: null,
+    trigger,
+    phase: 'queued',
+    total: 0,
+    processed: 0,
+    errors: [],
+    error: null,
+    result: null,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    timings: { fetchMs: null, ingestMs: null },
+  };
+
+  jobs.set(job.id, job);
+  activeJobId = job.id;
+  pruneJobs();
+
+  void runJob(job);
+  return job;
+}
+
+async function runJob(job: ScrapeJob) {
+  const start = Date.now();
+  let ingestStart = start;
+
+  await recordRunStart(job);
+
+  job.phase = 'fetching';
+  try {
+    job.result = await runScrapePipeline({
+      onFetched: (total) => {
+        ingestStart = Date.now();
+        job.timings.fetchMs = ingestStart - start;
+        job.total = total;
+        job.phase = 'ingesting';
+      },
+      onProcessed: () => {
+        job.processed++;
+      },
+      onTickerError: (error) => {
+        job.errors.push(error);
+      },
+    });
+    job.timings.ingestMs = Date.now() - ingestStart;
+    job.phase = 'completed';
+  } catch (error: any) {
+    log(`Scrape job ${job.id} failed: ${error.message}`, 'scraper');
+    job.phase = 'failed';
+    job.error = error.message;
+    if (error instanceof ScraperLayoutError) {
+      job.unexpectedHeaders = error.unexpectedHeaders;
+      job.missingHeaders = error.missingHeaders;
+    }
+  } finally {
+    job.finishedAt = new Date().toISOString();
+    activeJobId = null;
+    await recordRunEnd(job);
+  }
+}
+
+// Run history is best effort: a database hiccup here must not fail the scrape itself
+
+async function recordRunStart(job: ScrapeJob) {
+  try {
+    const run = await storage.createScrapeRun({
+      jobId: job.id,
+      trigger: job.trigger,
+      status: 'running',
+      startedAt: job.startedAt,
+    });
+    job.runId = run.id;
+  } catch (error: any) {
+    log(`Could not record scrape run for job ${job.id}: ${error.message}`, 'scraper');
+  }
+}
+
+async function recordRunEnd(job: ScrapeJob) {
+  if (job.runId === null) return;
+  try {
+    await storage.updateScrapeRun(job.runId, {
+      status: job.phase === 'completed' ? 'completed' : 'failed',
+      finishedAt: job.finishedAt,
+      scraped: job.result?.scraped ?? null,
+      stocksCreated: job.result?.stocksCreated ?? null,
+      stocksUpdated: job.result?.stocksUpdated ?? null,
+      fundamentalsCreated: job.result?.fundamentalsCreated ?? null,
+      fundamentalsUpdated: job.result?.fundamentalsUpdated ?? null,
+      error: job.error,
+      tickerErrors: job.errors,
+    });
+  } catch (error: any) {
+    log(`Could not record end of scrape run ${job.runId}: ${error.message}`, 'scraper');
+  }
+}
+
+function pruneJobs() {
+  for (const id of Array.from(jobs.keys())) {
+    if (jobs.size <= MAX_JOBS) break;
+    if (id !== activeJobId) jobs.delete(id);
+  }
+}
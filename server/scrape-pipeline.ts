@@ -0,0 +1,100 @@
+import { storage, type IngestResult, type SnapshotRow } from "./storage";
+import { scrapeFundamentus, isLikelyStateOwned, type RowErrorHandler, type StockDetail } from "./scraper";
+import { log } from "./log";
+
+export interface ScrapeResult extends IngestResult {
+  scraped: number;
+}
+
+export interface ScrapeProgress {
+  /** Called once resultado.php has been parsed, before ingestion starts */
+  onFetched?: (total: number) => void;
+  /** Called after each ticker has been written */
+  onProcessed?: (ticker: string) => void;
+  /** Called for each ticker whose resultado.php row could not be parsed */
+  onTickerError?: RowErrorHandler;
+}
+
+/**
+ * Scrapes resultado.php and stores today's snapshot for every ticker.
+ * The snapshot is written in a single transaction, so a failure anywhere rejects
+ * and leaves the previously stored data untouched.
+ */
+export async function runScrapePipeline(progress: ScrapeProgress = {}): Promise<ScrapeResult> {
+  log('Starting scrape process...', 'scraper');
+  
+  const scrapedStocks = await scrapeFundamentus({ onRowError: progress.onTickerError });
+  
+  if (scrapedStocks.length === 0) {
+    throw new Error('No stocks found. The scraper may need to be updated.');
+  }
+
+  progress.onFetched?.(scrapedStocks.length);
+
+  const today = new Date().toISOString().split('T')[0];
+
+  const rows: SnapshotRow[] = scrapedStocks.map((scraped) => ({
+    stock: {
+      ticker: scraped.ticker,
+      name: scraped.name,
+      sector: scraped.sector || 'Unknown',
+      subsector: null,
+      isStateOwned: isLikelyStateOwned(scraped.name, scraped.ticker),
+    },
+    fundamental: {
+      ticker: scraped.ticker,
+      date: today,
+      pl: scraped.pl,
+      roe: scraped.roe,
+      pvp: scraped.pvp,
+      divYield: scraped.divYield,
+      ebitEv: scraped.ebitEv ? 1 / scraped.ebitEv : null, // fundamentus shows EV/EBIT, we store EBIT/EV
+      roic: scraped.roic,
+      price: scraped.price,
+      psr: scraped.psr,
+      pAtivo: scraped.pAtivo,
+      pCapGiro: scraped.pCapGiro,
+      pEbit: scraped.pEbit,
+      pAtivCircLiq: scraped.pAtivCircLiq,
+      evEbitda: scraped.evEbitda,
+      ebitMargin: scraped.ebitMargin,
+      netMargin: scraped.netMargin,
+      currentLiquidity: scraped.currentLiquidity,
+      liquidity: scraped.liquidity,
+      netWorth: scraped.netWorth,
+      grossDebtEquity: scraped.grossDebtEquity,
+      revenueGrowth5y: scraped.revenueGrowth5y,
+    },
+    price: scraped.price !== null ? { ticker: scraped.ticker, date: today, close: scraped.price } : undefined,
+  }));
+
+  const counts = await storage.ingestSnapshot(rows, (tickers) => {
+    for (const ticker of tickers) progress.onProcessed?.(ticker);
+  });
+
+  log(`Scrape completed: ${scrapedStocks.length} stocks processed`, 'scraper');
+
+  return { scraped: scrapedStocks.length, ...counts };
+}
+
+/**
+ * Stores what detalhes.php says about one stock: its classification, and its ratios,
+ * company facts, balance sheet and income statement as today's snapshot
+ */
+export async function storeStockDetail(details: StockDetail) {
+  const { name, sector, subsector, ...figures } = details;
+  await storage.upsertStock({
+    ticker: details.ticker,
+    name,
+    sector,
+    subsector,
+    isStateOwned: isLikelyStateOwned(name, details.ticker),
+    classifiedAt: new Date().toISOString(),
+  });
+
+  const today = new Date().toISOString().split('T')[0];
+  await storage.upsertFundamental({ ...figures, date: today });
+  if (details.price !== null) {
+    await storage.upsertPrice({ ticker: details.ticker, date: today, close: details.price });
+  }
+}
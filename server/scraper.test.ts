@@ -0,0 +1,269 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import * as cheerio from 'cheerio';
+import {
+  parseNumber,
+  parseResultadoPage,
+  parseDetalhesPage,
+  scrapeFundamentus,
+  scrapeStockDetail,
+  ScraperLayoutError,
+} from './scraper';
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf-8');
+
+/**
+ * Builds a fetch stub that serves a fixture and records the requested URLs
+ */
+function fakeFetch(body: string | Buffer, init: ResponseInit = {}) {
+  const requested: string[] = [];
+  const impl = (async (input: string | URL | Request) => {
+    requested.push(String(input));
+    return new Response(body, init);
+  }) as typeof fetch;
+  return { impl, requested };
+}
+
+describe('parseNumber', () => {
+  it('parses Brazilian decimals and thousand separators', () => {
+    assert.equal(parseNumber('38,52'), 38.52);
+    assert.equal(parseNumber('1.456.789.012,00'), 1456789012);
+    assert.equal(parseNumber('13.044.496.930'), 13044496930);
+    assert.equal(parseNumber('0,00'), 0);
+  });
+
+  it('parses percentages', () => {
+    assert.equal(parseNumber('16,58%'), 16.58);
+    assert.equal(parseNumber(' 27,91% '), 27.91);
+  });
+
+  it('parses negatives', () => {
+    assert.equal(parseNumber('-0,07'), -0.07);
+    assert.equal(parseNumber('-312,40%'), -312.4);
+    assert.equal(parseNumber('-21.345.678.000,00'), -21345678000);
+  });
+
+  it('returns null for missing values', () => {
+    assert.equal(parseNumber('-'), null);
+    assert.equal(parseNumber('n/a'), null);
+    assert.equal(parseNumber(''), null);
+    assert.equal(parseNumber(undefined), null);
+    assert.equal(parseNumber('abc'), null);
+  });
+});
+
+describe('parseResultadoPage', () => {
+  const stocks = parseResultadoPage(fixture('resultado.html'));
+
+  it('skips rows without a ticker', () => {
+    assert.deepEqual(stocks.map((s) => s.ticker), ['PETR4', 'ITUB4', 'OIBR3']);
+  });
+
+  it('maps every column of a regular row', () => {
+    assert.deepEqual(stocks[0], {
+      ticker: 'PETR4',
+      name: 'PETROBRAS PN',
+      sector: 'Unknown',
+      price: 38.52,
+      pl: 4.12,
+      pvp: 1.15,
+      psr: 0.974,
+      divYield: 16.58,
+      pAtivo: 0.459,
+      pCapGiro: -32.1,
+      pEbit: 2.31,
+      pAtivCircLiq: -0.89,
+      ebitEv: 3.12,
+      evEbitda: 2.25,
+      ebitMargin: 42.17,
+      netMargin: 23.65,
+      currentLiquidity: 0.97,
+      roic: 21.34,
+      roe: 27.91,
+      liquidity: 1456789012,
+      netWorth: 389120000000,
+      grossDebtEquity: 0.81,
+      revenueGrowth5y: 14.62,
+    });
+  });
+
+  it('keeps zeroes reported for banks', () => {
+    const itub = stocks[1];
+    assert.equal(itub.roic, 0);
+    assert.equal(itub.ebitEv, 0);
+    assert.equal(itub.roe, 20.48);
+  });
+
+  it('handles negative and missing values', () => {
+    const oibr = stocks[2];
+    assert.equal(oibr.pl, -0.07);
+    assert.equal(oibr.netMargin, -312.4);
+    assert.equal(oibr.evEbitda, null);
+    assert.equal(oibr.roe, null);
+    assert.equal(oibr.liquidity, 1234);
+    assert.equal(oibr.netWorth, -21345678000);
+  });
+
+  it('returns an empty list when the table is missing', () => {
+    assert.deepEqual(parseResultadoPage('<html><body></body></html>'), []);
+  });
+});
+
+describe('parseDetalhesPage', () => {
+  const detail = parseDetalhesPage('PETR4', fixture('detalhes-PETR4.html'));
+
+  it('reads the classification', () => {
+    assert.equal(detail.name, 'PETROBRAS PN');
+    assert.equal(detail.sector, 'Petróleo, Gás e Biocombustíveis');
+    assert.equal(detail.subsector, 'Exploração, Refino e Distribuição');
+  });
+
+  it('reads company facts', () => {
+    assert.equal(detail.price, 38.52);
+    assert.equal(detail.min52w, 30.12);
+    assert.equal(detail.max52w, 42.8);
+    assert.equal(detail.liquidity, 1456789012);
+    assert.equal(detail.marketCap, 502345000000);
+    assert.equal(detail.firmValue, 781456000000);
+    assert.equal(detail.sharesOutstanding, 13044496930);
+    assert.equal(detail.lpa, 9.35);
+    assert.equal(detail.vpa, 33.5);
+    assert.equal(detail.grossMargin, 52.3);
+    assert.equal(detail.ebitMargin, 42.17);
+    assert.equal(detail.netMargin, 23.65);
+  });
+
+  it('reads the valuation ratios, so a detail snapshot stays screenable', () => {
+    assert.equal(detail.pl, 4.12);
+    assert.equal(detail.pvp, 1.15);
+    assert.equal(detail.psr, 0.974);
+    assert.equal(detail.pCapGiro, -32.1);
+    assert.equal(detail.evEbitda, 2.25);
+    assert.equal(detail.ebitEv, 1 / 3.12, 'EV / EBIT is stored inverted');
+    assert.equal(detail.divYield, 16.58);
+    assert.equal(detail.roe, 27.91);
+    assert.equal(detail.roic, 21.34);
+    assert.equal(detail.revenueGrowth5y, 14.62);
+  });
+
+  it('reads the ratios the F-score compares', () => {
+    assert.equal(detail.currentLiquidity, 0.97);
+    assert.equal(detail.grossDebtEquity, 0.81);
+    assert.equal(detail.assetTurnover, 0.47);
+  });
+
+  it('reads the balance sheet', () => {
+    assert.equal(detail.totalAssets, 1094567000000);
+    assert.equal(detail.currentAssets, 168432000000);
+    assert.equal(detail.cash, 36099000000);
+    assert.equal(detail.grossDebt, 315210000000);
+    assert.equal(detail.netDebt, 279111000000);
+    assert.equal(detail.netWorth, 389120000000);
+  });
+
+  it('separates the 12 month and last quarter income statement', () => {
+    assert.equal(detail.revenue12m, 515678000000);
+    assert.equal(detail.ebit12m, 217456000000);
+    assert.equal(detail.netIncome12m, 121987000000);
+    assert.equal(detail.revenue3m, 121345000000);
+    assert.equal(detail.ebit3m, -2345000000);
+    assert.equal(detail.netIncome3m, null);
+  });
+
+  it('falls back to the ticker and Unknown on an empty page', () => {
+    const empty = parseDetalhesPage('XXXX3', '<html><body></body></html>');
+    assert.equal(empty.name, 'XXXX3');
+    assert.equal(empty.sector, 'Unknown');
+    assert.equal(empty.subsector, 'Unknown');
+    assert.equal(empty.marketCap, null);
+  });
+});
+
+describe('scrapeFundamentus', () => {
+  it('fetches resultado.php through the injected fetch', async () => {
+    const { impl, requested } = fakeFetch(fixture('resultado.html'), {
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    });
+    const stocks = await scrapeFundamentus({ fetch: impl });
+
+    assert.deepEqual(requested, ['https://www.fundamentus.com.br/resultado.php']);
+    assert.equal(stocks.length, 3);
+  });
+
+  it('rejects on HTTP errors', async () => {
+    const { impl } = fakeFetch('Service Unavailable', { status: 503 });
+    await assert.rejects(scrapeFundamentus({ fetch: impl }), /status: 503/);
+  });
+});
+
+describe('scrapeStockDetail', () => {
+  it('decodes ISO-8859-1 pages', async () => {
+    const latin1 = Buffer.from(fixture('detalhes-PETR4.html'), 'latin1');
+    const { impl, requested } = fakeFetch(latin1, {
+      headers: { 'Content-Type': 'text/html; charset=ISO-8859-1' },
+    });
+    const detail = await scrapeStockDetail('PETR4', { fetch: impl });
+
+    assert.deepEqual(requested, ['https://www.fundamentus.com.br/detalhes.php?papel=PETR4']);
+    assert.equal(detail?.sector, 'Petróleo, Gás e Biocombustíveis');
+    assert.equal(detail?.revenue12m, 515678000000);
+  });
+
+  it('returns null when the page cannot be fetched', async () => {
+    const { impl } = fakeFetch('Not Found', { status: 404 });
+    assert.equal(await scrapeStockDetail('XXXX3', { fetch: impl }), null);
+  });
+});
+
+describe('resultado.php layout detection', () => {
+  const html = fixture('resultado.html');
+
+  /**
+   * Moves the "ROE" column (header and cells) to the front of every row
+   */
+  function withRoeFirst(page: string): string {
+    const $ = cheerio.load(page);
+    $('#resultado tr').each((_, row) => {
+      const cells = $(row).children('th, td');
+      if (cells.length === 21) $(row).prepend(cells.eq(16));
+    });
+    return $.html();
+  }
+
+  it('maps cells by header text when columns are reordered', () => {
+    const [petr] = parseResultadoPage(withRoeFirst(html));
+    assert.equal(petr.ticker, 'PETR4');
+    assert.equal(petr.roe, 27.91);
+    assert.equal(petr.roic, 21.34);
+  });
+
+  it('fails with the unexpected and missing headers', () => {
+    const renamed = html.replace('>ROE<', '>ROE (%)<');
+    assert.throws(() => parseResultadoPage(renamed), (error: unknown) => {
+      assert.ok(error instanceof ScraperLayoutError);
+      assert.deepEqual(error.unexpectedHeaders, ['ROE (%)']);
+      assert.deepEqual(error.missingHeaders, ['ROE']);
+      assert.match(error.message, /layout changed/);
+      return true;
+    });
+  });
+
+  it('skips and reports rows with missing cells', async () => {
+    const $ = cheerio.load(html);
+    $('#resultado tbody tr').eq(1).children('td').last().remove();
+    const errors: { ticker: string; message: string }[] = [];
+
+    const { impl } = fakeFetch($.html());
+    const stocks = await scrapeFundamentus({ fetch: impl, onRowError: (error) => errors.push(error) });
+
+    assert.deepEqual(stocks.map((s) => s.ticker), ['PETR4', 'OIBR3']);
+    assert.deepEqual(errors, [{ ticker: 'ITUB4', message: 'Expected 21 cells, found 20' }]);
+  });
+
+  it('rejects scrapeFundamentus with the layout error', async () => {
+    const { impl } = fakeFetch(html.replace('>Cotação<', '>Preço<'));
+    await assert.rejects(scrapeFundamentus({ fetch: impl }), ScraperLayoutError);
+  });
+});
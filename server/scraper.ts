@@ -1,25 +1,101 @@
 import * as cheerio from 'cheerio';
-import { log } from './index';
+import { log } from './log';
 
 export interface ScrapedStock {
   ticker: string;
   name: string;
   sector: string;
+  price: number | null;
   pl: number | null;
   pvp: number | null;
-  roe: number | null;
-  roic: number | null;
+  psr: number | null;
   divYield: number | null;
+  pAtivo: number | null;
+  pCapGiro: number | null;
+  pEbit: number | null;
+  pAtivCircLiq: number | null;
   ebitEv: number | null;
-  netProfit: number | null;
+  evEbitda: number | null;
+  ebitMargin: number | null;
+  netMargin: number | null;
+  currentLiquidity: number | null;
+  roic: number | null;
+  roe: number | null;
   liquidity: number | null;
+  netWorth: number | null;
+  grossDebtEquity: number | null;
+  revenueGrowth5y: number | null;
+}
+
+export interface ScrapeOptions {
+  /** fetch implementation, defaults to the global fetch (injected in tests) */
+  fetch?: typeof fetch;
+  /** Called for each resultado.php row that could not be parsed; the row is skipped */
+  onRowError?: RowErrorHandler;
+}
+
+export type RowErrorHandler = (error: { ticker: string; message: string }) => void;
+
+const REQUEST_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+  'Accept-Language': 'pt-BR,pt;q=0.9,en-US;q=0.8,en;q=0.7',
+};
+
+/**
+ * resultado.php column headers and the ScrapedStock field each one fills
+ */
+const RESULTADO_COLUMNS = {
+  'Papel': 'ticker',
+  'Cotação': 'price',
+  'P/L': 'pl',
+  'P/VP': 'pvp',
+  'PSR': 'psr',
+  'Div.Yield': 'divYield',
+  'P/Ativo': 'pAtivo',
+  'P/Cap.Giro': 'pCapGiro',
+  'P/EBIT': 'pEbit',
+  'P/Ativ Circ.Liq': 'pAtivCircLiq',
+  'EV/EBIT': 'ebitEv', // stored inverted as EBIT/EV by the scrape pipeline
+  'EV/EBITDA': 'evEbitda',
+  'Mrg Ebit': 'ebitMargin',
+  'Mrg. Líq.': 'netMargin',
+  'Liq. Corr.': 'currentLiquidity',
+  'ROIC': 'roic',
+  'ROE': 'roe',
+  'Liq.2meses': 'liquidity',
+  'Patrim. Líq': 'netWorth',
+  'Dív.Brut/ Patrim.': 'grossDebtEquity',
+  'Cresc. Rec.5a': 'revenueGrowth5y',
+} as const satisfies Record<string, keyof ScrapedStock>;
+
+type ResultadoHeader = keyof typeof RESULTADO_COLUMNS;
+
+/**
+ * Thrown when the resultado.php table headers no longer match RESULTADO_COLUMNS
+ */
+export class ScraperLayoutError extends Error {
+  constructor(
+    public readonly unexpectedHeaders: string[],
+    public readonly missingHeaders: string[],
+  ) {
+    const problems = [];
+    if (unexpectedHeaders.length > 0) problems.push(`unexpected headers: ${unexpectedHeaders.join(', ')}`);
+    if (missingHeaders.length > 0) problems.push(`missing headers: ${missingHeaders.join(', ')}`);
+    super(`fundamentus layout changed (${problems.join('; ')})`);
+    this.name = 'ScraperLayoutError';
+  }
+}
+
+function normalizeHeader(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
 }
 
 /**
  * Converts Brazilian number format to float
  * e.g., "1.234,56" -> 1234.56, "15,3%" -> 15.3
  */
-function parseNumber(value: string | undefined): number | null {
+export function parseNumber(value: string | undefined): number | null {
   if (!value || value === '-' || value === 'n/a') return null;
   
   try {
@@ -37,122 +113,122 @@ function parseNumber(value: string | undefined): number | null {
   }
 }
 
+/**
+ * Decodes a response body using the charset announced in its Content-Type,
+ * since fundamentus pages are not always served as UTF-8
+ */
+async function readHtml(response: Response): Promise<string> {
+  const buffer = await response.arrayBuffer();
+  const contentType = response.headers.get('content-type') || '';
+  const charset = /charset=([^;]+)/i.exec(contentType)?.[1].trim() || 'utf-8';
+  
+  try {
+    return new TextDecoder(charset).decode(buffer);
+  } catch (e) {
+    // Unknown charset label, fall back to UTF-8
+    return new TextDecoder().decode(buffer);
+  }
+}
+
 /**
  * Scrapes stock data from fundamentus.com.br/resultado.php
  */
-export async function scrapeFundamentus(): Promise<ScrapedStock[]> {
+export async function scrapeFundamentus(options: ScrapeOptions = {}): Promise<ScrapedStock[]> {
   const url = 'https://www.fundamentus.com.br/resultado.php';
+  const fetchImpl = options.fetch ?? fetch;
   
   log('Starting scrape from ' + url, 'scraper');
   
   try {
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'Accept-Language': 'pt-BR,pt;q=0.9,en-US;q=0.8,en;q=0.7',
-      }
-    });
+    const response = await fetchImpl(url, { headers: REQUEST_HEADERS });
     
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
     }
     
-    const html = await response.text();
-    const $ = cheerio.load(html);
-    
-    const stocks: ScrapedStock[] = [];
-    
-    // Find the main results table
-    // The table structure has headers in first row, data in subsequent rows
-    const table = $('#resultado');
-    
-    if (table.length === 0) {
-      log('Could not find results table', 'scraper');
-      return stocks;
-    }
+    return parseResultadoPage(await readHtml(response), options.onRowError);
+  } catch (error) {
+    log(`Scraping error: ${error}`, 'scraper');
+    throw error;
+  }
+}
+
+/**
+ * Parses the resultado.php HTML into one entry per ticker. Rows that cannot be
+ * parsed are skipped and reported to `onRowError`.
+ */
+export function parseResultadoPage(html: string, onRowError?: RowErrorHandler): ScrapedStock[] {
+  const $ = cheerio.load(html);
+  
+  const stocks: ScrapedStock[] = [];
+  
+  // Find the main results table
+  // The table structure has headers in first row, data in subsequent rows
+  const table = $('#resultado');
+  
+  if (table.length === 0) {
+    log('Could not find results table', 'scraper');
+    return stocks;
+  }
+  
+  // Map every column by its header text so a reordered table never
+  // stores one metric under another's name
+  const headers: string[] = [];
+  table.find('thead tr th').each((_, el) => {
+    headers.push(normalizeHeader($(el).text()));
+  });
+  
+  log(`Found ${headers.length} columns`, 'scraper');
+  
+  const unexpectedHeaders = headers.filter((header) => !(header in RESULTADO_COLUMNS));
+  const missingHeaders = Object.keys(RESULTADO_COLUMNS).filter((header) => !headers.includes(header));
+  if (unexpectedHeaders.length > 0 || missingHeaders.length > 0) {
+    throw new ScraperLayoutError(unexpectedHeaders, missingHeaders);
+  }
+  
+  const columns = headers.map((header) => RESULTADO_COLUMNS[header as ResultadoHeader]);
+  const tickerIndex = columns.indexOf('ticker');
+  
+  table.find('tbody tr').each((_, row) => {
+    const cells = $(row).find('td');
     
-    // Get column headers for debugging
-    const headers: string[] = [];
-    table.find('thead tr th').each((_, el) => {
-      const text = $(el).text().trim();
-      headers.push(text);
-    });
+    if (cells.length === 0) return;
     
-    log(`Found ${headers.length} columns`, 'scraper');
+    const ticker = $(cells[tickerIndex]).text().trim();
     
-    // Parse each row in tbody
-    // Column positions based on fundamentus.com.br structure:
-    // 0: Papel (Ticker)
-    // 1: Cotação (Price) - not stored
-    // 2: P/L
-    // 3: P/VP
-    // 4: PSR
-    // 5: Div.Yield
-    // 6: P/Ativo
-    // 7: P/Cap.Giro
-    // 8: P/EBIT
-    // 9: P/Ativ Circ.Liq
-    // 10: EV/EBIT
-    // 11: EV/EBITDA
-    // 12: Mrg Ebit
-    // 13: Mrg. Líq.
-    // 14: Liq. Corr.
-    // 15: ROIC
-    // 16: ROE
-    // 17: Liq.2meses
-    // 18: Patrim. Líq
-    // 19: Dív.Brut/ Patrim.
-    // 20: Cresc. Rec.5a
+    // Skip if no ticker
+    if (!ticker) return;
     
-    table.find('tbody tr').each((_, row) => {
-      const cells = $(row).find('td');
+    try {
+      // A short row would leave its last metrics empty, or shift them under the wrong header
+      if (cells.length !== headers.length) {
+        throw new Error(`Expected ${headers.length} cells, found ${cells.length}`);
+      }
+      
+      // Get company name from the tooltip wrapping the ticker link
+      const name = $(cells[tickerIndex]).find('[title]').first().attr('title') || ticker;
       
-      if (cells.length === 0) return;
+      const stock = {
+        ticker,
+        name,
+        sector: 'Unknown', // Sector info not available in resultado.php table
+      } as ScrapedStock;
       
-      try {
-        const ticker = $(cells[0]).text().trim();
-        
-        // Skip if no ticker
-        if (!ticker) return;
-        
-        // Get company name from the ticker link
-        const tickerLink = $(cells[0]).find('a');
-        let name = ticker;
-        let sector = 'Unknown';
-        
-        // Try to get more info from the detalhes page link
-        if (tickerLink.length > 0) {
-          name = tickerLink.attr('title') || ticker;
+      columns.forEach((field, index) => {
+        if (field !== 'ticker') {
+          stock[field] = parseNumber($(cells[index]).text());
         }
-        
-        const stock: ScrapedStock = {
-          ticker,
-          name,
-          sector, // Sector info not available in resultado.php table
-          pl: parseNumber($(cells[2]).text()),
-          pvp: parseNumber($(cells[3]).text()),
-          roe: parseNumber($(cells[16]).text()),
-          roic: parseNumber($(cells[15]).text()),
-          divYield: parseNumber($(cells[5]).text()),
-          ebitEv: parseNumber($(cells[10]).text()),
-          netProfit: parseNumber($(cells[13]).text()), // Using Mrg. Líq. as proxy
-          liquidity: parseNumber($(cells[17]).text()),
-        };
-        
-        stocks.push(stock);
-      } catch (e) {
-        log(`Error parsing row: ${e}`, 'scraper');
-      }
-    });
-    
-    log(`Successfully scraped ${stocks.length} stocks`, 'scraper');
-    return stocks;
-    
-  } catch (error) {
-    log(`Scraping error: ${error}`, 'scraper');
-    throw error;
-  }
+      });
+      
+      stocks.push(stock);
+    } catch (e: any) {
+      log(`Error parsing row for ${ticker}: ${e.message}`, 'scraper');
+      onRowError?.({ ticker, message: e.message });
+    }
+  });
+  
+  log(`Successfully scraped ${stocks.length} stocks`, 'scraper');
+  return stocks;
 }
 
 /**
@@ -193,70 +269,155 @@ export interface StockDetail {
   name: string;
   sector: string;
   subsector: string;
+  // Market data
+  price: number | null;
+  min52w: number | null;
+  max52w: number | null;
+  liquidity: number | null; // Vol $ méd (2m)
+  marketCap: number | null;
+  firmValue: number | null;
+  sharesOutstanding: number | null;
+  // Valuation ratios, the same ones resultado.php lists
+  pl: number | null;
+  pvp: number | null;
+  psr: number | null;
+  pAtivo: number | null;
+  pCapGiro: number | null;
+  pEbit: number | null;
+  pAtivCircLiq: number | null;
+  evEbitda: number | null;
+  ebitEv: number | null;            // Stored inverted (EBIT/EV), like the bulk scrape
+  divYield: number | null;
+  roe: number | null;
+  roic: number | null;
+  revenueGrowth5y: number | null;
+  // Per-share figures and margins ("Indicadores fundamentalistas")
+  lpa: number | null;
+  vpa: number | null;
+  grossMargin: number | null;
+  ebitMargin: number | null;
+  netMargin: number | null;
+  currentLiquidity: number | null; // Liquidez Corr
+  grossDebtEquity: number | null;  // Div Br/ Patrim
+  assetTurnover: number | null;    // Giro Ativos
+  // Balance sheet block ("Dados Balanço Patrimonial")
+  totalAssets: number | null;
+  currentAssets: number | null;
+  cash: number | null;
+  grossDebt: number | null;
+  netDebt: number | null;
+  netWorth: number | null;
+  // Income statement block ("Dados demonstrativos de resultados")
+  revenue12m: number | null;
+  ebit12m: number | null;
+  netIncome12m: number | null;
+  revenue3m: number | null;
+  ebit3m: number | null;
+  netIncome3m: number | null;
 }
 
 /**
  * Scrapes detailed information for a specific stock
  */
-export async function scrapeStockDetail(ticker: string): Promise<StockDetail | null> {
+export async function scrapeStockDetail(ticker: string, options: ScrapeOptions = {}): Promise<StockDetail | null> {
   const url = `https://www.fundamentus.com.br/detalhes.php?papel=${ticker}`;
+  const fetchImpl = options.fetch ?? fetch;
   
   log(`Scraping details for ${ticker}`, 'scraper');
   
   try {
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'Accept-Language': 'pt-BR,pt;q=0.9,en-US;q=0.8,en;q=0.7',
-      }
-    });
+    const response = await fetchImpl(url, { headers: REQUEST_HEADERS });
     
     if (!response.ok) {
       log(`Failed to fetch details for ${ticker}: ${response.status}`, 'scraper');
       return null;
     }
     
-    const html = await response.text();
-    const $ = cheerio.load(html);
-    
-    let name = ticker;
-    let sector = 'Unknown';
-    let subsector = 'Unknown';
-    
-    // Find all rows with label/data structure
-    $('td.label').each((_, labelCell) => {
-      const label = $(labelCell).find('.txt').text().trim();
-      const dataCell = $(labelCell).next('td.data');
-      
-      if (dataCell.length === 0) return;
-      
-      // Try to get text from link first, then from span
-      let value = dataCell.find('a').text().trim();
-      if (!value) {
-        value = dataCell.find('.txt').text().trim();
-      }
-      
-      if (label === 'Empresa') {
-        name = value || ticker;
-      } else if (label === 'Setor') {
-        sector = value || 'Unknown';
-      } else if (label === 'Subsetor') {
-        subsector = value || 'Unknown';
-      }
-    });
-    
-    log(`Found details for ${ticker}: ${name} (${sector})`, 'scraper');
-    
-    return {
-      ticker,
-      name,
-      sector,
-      subsector,
-    };
-    
+    return parseDetalhesPage(ticker, await readHtml(response));
   } catch (error) {
     log(`Error scraping details for ${ticker}: ${error}`, 'scraper');
     return null;
   }
 }
+
+/**
+ * Parses the detalhes.php HTML of a single ticker
+ */
+export function parseDetalhesPage(ticker: string, html: string): StockDetail {
+  const $ = cheerio.load(html);
+  
+  // Collect every label/data pair. Some labels appear more than once,
+  // e.g. the income statement lists "Últimos 12 meses" before "Últimos 3 meses"
+  const fields = new Map<string, string[]>();
+  $('td.label').each((_, labelCell) => {
+    const label = $(labelCell).find('.txt').text().trim();
+    const dataCell = $(labelCell).next('td.data');
+    
+    if (!label || dataCell.length === 0) return;
+    
+    // Try to get text from link first, then from span
+    let value = dataCell.find('a').text().trim();
+    if (!value) {
+      value = dataCell.find('.txt').text().trim();
+    }
+    
+    fields.set(label, [...(fields.get(label) || []), value]);
+  });
+  
+  const textField = (label: string, occurrence = 0) => fields.get(label)?.[occurrence] || '';
+  const numberField = (label: string, occurrence = 0) => parseNumber(fields.get(label)?.[occurrence]);
+  
+  const evEbit = numberField('EV / EBIT');
+  const name = textField('Empresa') || ticker;
+  const sector = textField('Setor') || 'Unknown';
+  const subsector = textField('Subsetor') || 'Unknown';
+  
+  log(`Found details for ${ticker}: ${name} (${sector})`, 'scraper');
+  
+  return {
+    ticker,
+    name,
+    sector,
+    subsector,
+    price: numberField('Cotação'),
+    min52w: numberField('Min 52 sem'),
+    max52w: numberField('Max 52 sem'),
+    liquidity: numberField('Vol $ méd (2m)'),
+    marketCap: numberField('Valor de mercado'),
+    firmValue: numberField('Valor da firma'),
+    sharesOutstanding: numberField('Nro. Ações'),
+    pl: numberField('P/L'),
+    pvp: numberField('P/VP'),
+    psr: numberField('PSR'),
+    pAtivo: numberField('P/Ativos'),
+    pCapGiro: numberField('P/Cap. Giro'),
+    pEbit: numberField('P/EBIT'),
+    pAtivCircLiq: numberField('P/Ativ Circ Liq'),
+    evEbitda: numberField('EV / EBITDA'),
+    ebitEv: evEbit ? 1 / evEbit : null,
+    divYield: numberField('Div. Yield'),
+    roe: numberField('ROE'),
+    roic: numberField('ROIC'),
+    revenueGrowth5y: numberField('Cres. Rec (5a)'),
+    lpa: numberField('LPA'),
+    vpa: numberField('VPA'),
+    grossMargin: numberField('Marg. Bruta'),
+    ebitMargin: numberField('Marg. EBIT'),
+    netMargin: numberField('Marg. Líquida'),
+    currentLiquidity: numberField('Liquidez Corr'),
+    grossDebtEquity: numberField('Div Br/ Patrim'),
+    assetTurnover: numberField('Giro Ativos'),
+    totalAssets: numberField('Ativo'),
+    currentAssets: numberField('Ativo Circulante'),
+    cash: numberField('Disponibilidades'),
+    grossDebt: numberField('Dív. Bruta'),
+    netDebt: numberField('Dív. Líquida'),
+    netWorth: numberField('Patrim. Líq'),
+    revenue12m: numberField('Receita Líquida', 0),
+    ebit12m: numberField('EBIT', 0),
+    netIncome12m: numberField('Lucro Líquido', 0),
+    revenue3m: numberField('Receita Líquida', 1),
+    ebit3m: numberField('EBIT', 1),
+    netIncome3m: numberField('Lucro Líquido', 1),
+  };
+}
@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { StockWithLatestFundamental } from '@shared/schema';
+import { compareToPeers, describeSector, findPeers, median, summarizeSectors } from './sectors';
+
+function stock(ticker: string, sector: string | null, latest: Record<string, number | null>, subsector: string | null = null) {
+  return { ticker, name: ticker, sector, subsector, isStateOwned: false, isDemo: false, classifiedAt: null, latest } as unknown as StockWithLatestFundamental;
+}
+
+describe('median', () => {
+  it('takes the middle value, averaging the two middle ones for even counts', () => {
+    assert.equal(median([3, 1, 2]), 2);
+    assert.equal(median([4, 1, 3, 2]), 2.5);
+  });
+
+  it('ignores missing values', () => {
+    assert.equal(median([null, 5, undefined, 7]), 6);
+    assert.equal(median([null, undefined]), null);
+  });
+});
+
+describe('summarizeSectors', () => {
+  it('groups by sector with medians, largest sectors first', () => {
+    const summary = summarizeSectors([
+      stock('AAAA3', 'Banking', { pl: 5, pvp: 1, roe: 20, divYield: 8, ebitEv: null }, 'Banks'),
+      stock('BBBB3', 'Banking', { pl: 9, pvp: 2, roe: 10, divYield: 4, ebitEv: null }, 'Banks'),
+      stock('CCCC3', 'Banking', { pl: 7, pvp: null, roe: 15, divYield: 6, ebitEv: null }, 'Insurance'),
+      stock('DDDD3', 'Mining', { pl: 4, pvp: 1.5, roe: 25, divYield: 10, ebitEv: 0.2 }),
+      stock('EEEE3', null, { pl: 12, pvp: 3, roe: 5, divYield: 1, ebitEv: 0.05 }),
+    ]);
+
+    assert.deepEqual(summary.map((s) => [s.sector, s.count]), [['Banking', 3], ['Mining', 1], ['Unknown', 1]]);
+    assert.deepEqual(summary[0].subsectors, ['Banks', 'Insurance']);
+    assert.deepEqual(summary[0].medians, { pl: 7, pvp: 1.5, roe: 15, divYield: 6, ebitEv: null });
+  });
+});
+
+describe('compareToPeers', () => {
+  it('gives the percentile, counting ties as half below, and the z-score', () => {
+    const peers = [2, 4, 4, 4, 5, 5, 7, 9]; // mean 5, standard deviation 2
+    assert.deepEqual(compareToPeers(9, peers), { percentile: 93.75, zScore: 2 });
+    assert.deepEqual(compareToPeers(4, peers), { percentile: 31.25, zScore: -0.5 });
+  });
+
+  it('has no z-score when every peer has the same value', () => {
+    assert.deepEqual(compareToPeers(3, [3, 3, null]), { percentile: 50, zScore: null });
+  });
+
+  it('skips missing values', () => {
+    assert.equal(compareToPeers(null, [1, 2]), null);
+  });
+});
+
+describe('describeSector', () => {
+  it('places each stock against its sector peers only', () => {
+    const stocks = [
+      stock('AAAA3', 'Banking', { pl: 5, pvp: 1, roe: 20, divYield: 8, ebitEv: null }),
+      stock('BBBB3', 'Banking', { pl: 9, pvp: 2, roe: 10, divYield: 4, ebitEv: null }),
+      stock('CCCC3', 'Retail', { pl: 40, pvp: 9, roe: 5, divYield: 1, ebitEv: 0.1 }),
+      stock('DDDD3', null, { pl: 12, pvp: 3, roe: 5, divYield: 1, ebitEv: 0.05 }),
+    ];
+
+    const banking = describeSector(stocks, 'Banking');
+    assert.equal(banking?.summary.count, 2);
+    assert.deepEqual(banking?.stocks.map((s) => s.ticker), ['AAAA3', 'BBBB3']);
+    assert.deepEqual(banking?.stocks[0].relative.pvp, { percentile: 25, zScore: -1 });
+    assert.equal(banking?.stocks[0].relative.ebitEv, null);
+
+    assert.deepEqual(describeSector(stocks, 'Unknown')?.stocks.map((s) => s.ticker), ['DDDD3']);
+    assert.equal(describeSector(stocks, 'Mining'), undefined);
+  });
+});
+
+describe('findPeers', () => {
+  const stocks = [
+    stock('AAAA3', 'Banking', { pl: 5, pvp: 1, roe: 20, roic: null, divYield: 8 }, 'Banks'),
+    stock('BBBB3', 'Banking', { pl: -3, pvp: 2, roe: -10, roic: null, divYield: 4 }, 'Banks'),
+    stock('CCCC3', 'Banking', { pl: 7, pvp: 1, roe: 15, roic: null, divYield: 8 }, 'Banks'),
+    stock('DDDD3', 'Banking', { pl: 4, pvp: 3, roe: 30, roic: null, divYield: 1 }, 'Insurance'),
+    stock('EEEE3', 'Mining', { pl: 6, pvp: 2, roe: 25, roic: 30, divYield: 9 }),
+  ];
+
+  it('ranks the stock among its subsector', () => {
+    const result = findPeers(stocks[2], stocks);
+    assert.equal(result.groupBy, 'subsector');
+    assert.equal(result.group, 'Banks');
+    assert.deepEqual(result.peers.map((s) => s.ticker), ['AAAA3', 'BBBB3', 'CCCC3']);
+    assert.deepEqual(result.ranks.pl, { rank: 2, of: 2 }, 'the loss-making peer is not ranked on P/L');
+    assert.deepEqual(result.ranks.pvp, { rank: 1, of: 3 }, 'ties share a rank');
+    assert.deepEqual(result.ranks.roe, { rank: 2, of: 3 });
+    assert.deepEqual(result.ranks.divYield, { rank: 1, of: 3 });
+    assert.equal(result.ranks.roic, null);
+  });
+
+  it('falls back to the sector when the stock has no subsector', () => {
+    const result = findPeers(stocks[4], stocks);
+    assert.equal(result.groupBy, 'sector');
+    assert.deepEqual(result.peers.map((s) => s.ticker), ['EEEE3']);
+    assert.deepEqual(result.ranks.roic, { rank: 1, of: 1 });
+  });
+
+  it('does not rank a stock without a snapshot', () => {
+    const unlisted = { ...stocks[0], ticker: 'ZZZZ3' };
+    assert.equal(findPeers(unlisted, stocks).ranks.roe, null);
+  });
+});
@@ -0,0 +1,124 @@
+import type { PeerComparison, PeerMetric, SectorDetail, SectorStock, SectorSummary, Stock, StockPeers, StockWithLatestFundamental } from "@shared/schema";
+
+type SectorMetric = keyof SectorSummary['medians'];
+
+const SECTOR_METRICS: SectorMetric[] = ['pl', 'pvp', 'roe', 'divYield', 'ebitEv'];
+
+/**
+ * Sector a stock is grouped under; stocks not classified yet share "Unknown"
+ */
+export function sectorOf(stock: Pick<Stock, 'sector'>): string {
+  return stock.sector || 'Unknown';
+}
+
+/**
+ * Median of the non-null values, or null when there are none
+ */
+export function median(values: (number | null | undefined)[]): number | null {
+  const sorted = values.filter((v): v is number => v !== null && v !== undefined).sort((a, b) => a - b);
+  if (sorted.length === 0) return null;
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Places `value` among `peers` (which include it): the percentile counts ties
+ * as half below, the z-score uses the population standard deviation.
+ */
+export function compareToPeers(value: number | null | undefined, peers: (number | null | undefined)[]): PeerComparison | null {
+  if (value === null || value === undefined) return null;
+  const values = peers.filter((v): v is number => v !== null && v !== undefined);
+  if (values.length === 0) return null;
+
+  const below = values.filter((v) => v < value).length;
+  const equal = values.filter((v) => v === value).length;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const stdDev = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+
+  return {
+    percentile: ((below + equal / 2) / values.length) * 100,
+    zScore: stdDev > 0 ? (value - mean) / stdDev : null,
+  };
+}
+
+/**
+ * Groups stocks by sector with median multiples over their latest snapshot,
+ * largest sectors first.
+ */
+export function summarizeSectors(stocks: StockWithLatestFundamental[]): SectorSummary[] {
+  const bySector = new Map<string, StockWithLatestFundamental[]>();
+  for (const stock of stocks) {
+    bySector.set(sectorOf(stock), [...(bySector.get(sectorOf(stock)) ?? []), stock]);
+  }
+
+  return Array.from(bySector, ([sector, members]) => summarize(sector, members))
+    .sort((a, b) => b.count - a.count || a.sector.localeCompare(b.sector));
+}
+
+/**
+ * One sector's summary plus its stocks, each metric placed against the sector's
+ * peers. Undefined when no stock belongs to the sector.
+ */
+export function describeSector(stocks: StockWithLatestFundamental[], sector: string): SectorDetail | undefined {
+  const members = stocks.filter((stock) => sectorOf(stock) === sector);
+  if (members.length === 0) return undefined;
+
+  return {
+    summary: summarize(sector, members),
+    stocks: members.map((stock): SectorStock => ({
+      ...stock,
+      relative: Object.fromEntries(SECTOR_METRICS.map((key) => [
+        key,
+        compareToPeers(stock.latest?.[key], members.map((s) => s.latest?.[key])),
+      ])) as SectorStock['relative'],
+    })),
+  };
+}
+
+/**
+ * Stocks in the same subsector as `stock` (its sector when it has no
+ * subsector), with the stock's rank among them on each peer metric. P/L and
+ * P/VP are ranked among positive values only: a negative P/L is a loss, not a bargain.
+ */
+export function findPeers(stock: Stock, stocks: StockWithLatestFundamental[]): StockPeers {
+  const groupBy = stock.subsector ? 'subsector' : 'sector';
+  const group = stock.subsector || sectorOf(stock);
+  const peers = stocks.filter((s) => (groupBy === 'subsector' ? s.subsector : sectorOf(s)) === group);
+  const own = peers.find((s) => s.ticker === stock.ticker)?.latest;
+
+  const rank = (key: PeerMetric, higherIsBetter: boolean) => {
+    const value = own?.[key];
+    const values = peers
+      .map((s) => s.latest?.[key])
+      .filter((v): v is number => v !== null && v !== undefined && (higherIsBetter || v > 0));
+    if (value === null || value === undefined || !values.includes(value)) return null;
+    return {
+      rank: 1 + values.filter((v) => (higherIsBetter ? v > value : v < value)).length,
+      of: values.length,
+    };
+  };
+
+  return {
+    groupBy,
+    group,
+    peers,
+    ranks: {
+      pl: rank('pl', false),
+      pvp: rank('pvp', false),
+      roe: rank('roe', true),
+      roic: rank('roic', true),
+      divYield: rank('divYield', true),
+    },
+  };
+}
+
+function summarize(sector: string, members: StockWithLatestFundamental[]): SectorSummary {
+  return {
+    sector,
+    count: members.length,
+    subsectors: Array.from(new Set(members.map((s) => s.subsector).filter((s): s is string => !!s))).sort(),
+    medians: Object.fromEntries(
+      SECTOR_METRICS.map((key) => [key, median(members.map((s) => s.latest?.[key]))]),
+    ) as SectorSummary['medians'],
+  };
+}
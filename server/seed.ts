@@ -0,0 +1,197 @@
+import type { IStorage } from "./storage";
+
+// Fixed seed, so every run produces the same demo figures (and the same screenshots)
+const DEMO_SEED = 20240101;
+
+// Real B3 tickers; only the fundamentals generated for them are made up
+const demoStocks = [
+  // Financial
+  { ticker: "ITUB4", name: "Itaú Unibanco", sector: "Banking", stateOwned: false },
+  { ticker: "BBDC4", name: "Bradesco", sector: "Banking", stateOwned: false },
+  { ticker: "BBAS3", name: "Banco do Brasil", sector: "Banking", stateOwned: true },
+  { ticker: "SANB11", name: "Santander Brasil", sector: "Banking", stateOwned: false },
+  { ticker: "BPAC11", name: "BTG Pactual", sector: "Banking", stateOwned: false },
+  { ticker: "ABCB4", name: "Banco ABC Brasil", sector: "Banking", stateOwned: false },
+  { ticker: "BRSR6", name: "Banrisul", sector: "Banking", stateOwned: true },
+  { ticker: "B3SA3", name: "B3", sector: "Financial Services", stateOwned: false },
+  { ticker: "BBSE3", name: "BB Seguridade", sector: "Insurance", stateOwned: true },
+  { ticker: "CXSE3", name: "Caixa Seguridade", sector: "Insurance", stateOwned: true },
+  { ticker: "PSSA3", name: "Porto Seguro", sector: "Insurance", stateOwned: false },
+  { ticker: "IRBR3", name: "IRB Brasil RE", sector: "Insurance", stateOwned: false },
+
+  // Oil & Gas
+  { ticker: "PETR3", name: "Petrobras", sector: "Oil & Gas", stateOwned: true },
+  { ticker: "PETR4", name: "Petrobras", sector: "Oil & Gas", stateOwned: true },
+  { ticker: "PRIO3", name: "PRIO", sector: "Oil & Gas", stateOwned: false },
+  { ticker: "RECV3", name: "PetroReconcavo", sector: "Oil & Gas", stateOwned: false },
+  { ticker: "UGPA3", name: "Ultrapar", sector: "Fuel Distribution", stateOwned: false },
+  { ticker: "VBBR3", name: "Vibra Energia", sector: "Fuel Distribution", stateOwned: false },
+  { ticker: "CSAN3", name: "Cosan", sector: "Fuel Distribution", stateOwned: false },
+
+  // Mining & Steel
+  { ticker: "VALE3", name: "Vale", sector: "Mining", stateOwned: false },
+  { ticker: "CMIN3", name: "CSN Mineração", sector: "Mining", stateOwned: false },
+  { ticker: "BRAP4", name: "Bradespar", sector: "Mining", stateOwned: false },
+  { ticker: "GGBR4", name: "Gerdau", sector: "Steel", stateOwned: false },
+  { ticker: "GOAU4", name: "Metalúrgica Gerdau", sector: "Steel", stateOwned: false },
+  { ticker: "USIM5", name: "Usiminas", sector: "Steel", stateOwned: false },
+  { ticker: "CSNA3", name: "CSN", sector: "Steel", stateOwned: false },
+  { ticker: "FESA4", name: "Ferbasa", sector: "Steel", stateOwned: false },
+
+  // Utilities
+  { ticker: "ELET3", name: "Eletrobras", sector: "Utilities", stateOwned: false },
+  { ticker: "CMIG4", name: "Cemig", sector: "Utilities", stateOwned: true },
+  { ticker: "CPLE6", name: "Copel", sector: "Utilities", stateOwned: false },
+  { ticker: "EGIE3", name: "Engie Brasil", sector: "Utilities", stateOwned: false },
+  { ticker: "EQTL3", name: "Equatorial", sector: "Utilities", stateOwned: false },
+  { ticker: "CPFE3", name: "CPFL Energia", sector: "Utilities", stateOwned: false },
+  { ticker: "TAEE11", name: "Taesa", sector: "Utilities", stateOwned: false },
+  { ticker: "TRPL4", name: "ISA CTEEP", sector: "Utilities", stateOwned: false },
+  { ticker: "ALUP11", name: "Alupar", sector: "Utilities", stateOwned: false },
+  { ticker: "SBSP3", name: "Sabesp", sector: "Sanitation", stateOwned: false },
+  { ticker: "SAPR11", name: "Sanepar", sector: "Sanitation", stateOwned: true },
+  { ticker: "CSMG3", name: "Copasa", sector: "Sanitation", stateOwned: true },
+
+  // Industrial
+  { ticker: "WEGE3", name: "WEG", sector: "Industrial", stateOwned: false },
+  { ticker: "EMBR3", name: "Embraer", sector: "Aerospace", stateOwned: false },
+  { ticker: "RAPT4", name: "Randon", sector: "Automotive", stateOwned: false },
+  { ticker: "TUPY3", name: "Tupy", sector: "Automotive", stateOwned: false },
+  { ticker: "POMO4", name: "Marcopolo", sector: "Automotive", stateOwned: false },
+  { ticker: "BRKM5", name: "Braskem", sector: "Chemicals", stateOwned: false },
+  { ticker: "UNIP6", name: "Unipar", sector: "Chemicals", stateOwned: false },
+  { ticker: "SUZB3", name: "Suzano", sector: "Paper & Pulp", stateOwned: false },
+  { ticker: "KLBN11", name: "Klabin", sector: "Paper & Pulp", stateOwned: false },
+
+  // Food & Agriculture
+  { ticker: "ABEV3", name: "Ambev", sector: "Beverages", stateOwned: false },
+  { ticker: "JBSS3", name: "JBS", sector: "Food", stateOwned: false },
+  { ticker: "BRFS3", name: "BRF", sector: "Food", stateOwned: false },
+  { ticker: "MRFG3", name: "Marfrig", sector: "Food", stateOwned: false },
+  { ticker: "BEEF3", name: "Minerva", sector: "Food", stateOwned: false },
+  { ticker: "MDIA3", name: "M. Dias Branco", sector: "Food", stateOwned: false },
+  { ticker: "SLCE3", name: "SLC Agrícola", sector: "Agriculture", stateOwned: false },
+
+  // Consumer & Retail
+  { ticker: "LREN3", name: "Lojas Renner", sector: "Retail", stateOwned: false },
+  { ticker: "ASAI3", name: "Assaí", sector: "Retail", stateOwned: false },
+  { ticker: "MGLU3", name: "Magazine Luiza", sector: "Retail", stateOwned: false },
+  { ticker: "GUAR3", name: "Guararapes", sector: "Retail", stateOwned: false },
+  { ticker: "ALPA4", name: "Alpargatas", sector: "Consumer", stateOwned: false },
+
+  // Healthcare
+  { ticker: "RDOR3", name: "Rede D'Or", sector: "Healthcare", stateOwned: false },
+  { ticker: "HAPV3", name: "Hapvida", sector: "Healthcare", stateOwned: false },
+  { ticker: "FLRY3", name: "Fleury", sector: "Healthcare", stateOwned: false },
+  { ticker: "RADL3", name: "Raia Drogasil", sector: "Pharma", stateOwned: false },
+  { ticker: "HYPE3", name: "Hypera", sector: "Pharma", stateOwned: false },
+
+  // Transportation
+  { ticker: "RAIL3", name: "Rumo", sector: "Transportation", stateOwned: false },
+  { ticker: "CCRO3", name: "CCR", sector: "Transportation", stateOwned: false },
+  { ticker: "RENT3", name: "Localiza", sector: "Rental", stateOwned: false },
+  { ticker: "AZUL4", name: "Azul", sector: "Airlines", stateOwned: false },
+
+  // Telecom & Technology
+  { ticker: "VIVT3", name: "Telefônica Brasil", sector: "Telecom", stateOwned: false },
+  { ticker: "TIMS3", name: "TIM", sector: "Telecom", stateOwned: false },
+  { ticker: "TOTS3", name: "Totvs", sector: "Software", stateOwned: false },
+  { ticker: "LWSA3", name: "Locaweb", sector: "Software", stateOwned: false },
+
+  // Real Estate & Education
+  { ticker: "CYRE3", name: "Cyrela", sector: "Real Estate", stateOwned: false },
+  { ticker: "MRVE3", name: "MRV", sector: "Real Estate", stateOwned: false },
+  { ticker: "EZTC3", name: "EZTEC", sector: "Real Estate", stateOwned: false },
+  { ticker: "MULT3", name: "Multiplan", sector: "Real Estate", stateOwned: false },
+  { ticker: "COGN3", name: "Cogna", sector: "Education", stateOwned: false },
+  { ticker: "YDUQ3", name: "Yduqs", sector: "Education", stateOwned: false },
+];
+
+/**
+ * mulberry32: small, fast and good enough for demo figures
+ */
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Fills an empty storage with real tickers and three years of quarterly
+ * fundamentals from a fixed-seed generator, so the dashboard has something to
+ * show before the first scrape. Every stock is flagged `isDemo`; the next bulk
+ * scrape removes them along with their history. Tickers already stored, e.g.
+ * stocks added by hand without a snapshot yet, are left untouched.
+ *
+ * Only runs when asked to (SEED_DEMO_DATA=true or `npm run db:seed`).
+ */
+export async function seedData(storage: IStorage) {
+  const existing = await storage.getStocks();
+  if (existing.length > 0) return;
+
+  const random = createRandom(DEMO_SEED);
+
+  // getStocks() only lists stocks with a snapshot, so look each ticker up
+  const created = new Set<string>();
+  for (const stock of demoStocks) {
+    if (await storage.getStock(stock.ticker)) continue;
+    await storage.createStock({
+      ticker: stock.ticker,
+      name: stock.name,
+      sector: stock.sector,
+      isStateOwned: stock.stateOwned,
+      isDemo: true,
+    });
+    created.add(stock.ticker);
+  }
+
+  // Generate historical data for each stock
+  const years = [2022, 2023, 2024];
+  const quarters = [1, 2, 3, 4];
+
+  for (const stock of demoStocks) {
+    if (!created.has(stock.ticker)) continue;
+    const baseRoe = 8 + random() * 25;
+    const baseNetProfit = 100 + random() * 5000;
+    const volatility = stock.sector === "Mining" || stock.sector === "Oil & Gas" ? 0.3 : 0.1;
+    const liquidity = Math.round(10 ** (5 + random() * 4)); // BRL 100k to 100M a day
+
+    let netProfit = baseNetProfit;
+    let roe = baseRoe;
+    let price = 5 + random() * 60;
+
+    for (const year of years) {
+      for (const q of quarters) {
+        // Trending and volatility
+        const trend = 1 + (random() - 0.5) * 0.1;
+        netProfit *= trend;
+        price *= 1 + (random() - 0.5) * 0.2;
+        roe += (random() - 0.5) * volatility * 10;
+        roe = Math.max(0, Math.min(50, roe)); // Keep between 0-50
+
+        const pl = 3 + random() * 35;
+        const pvp = 0.5 + random() * 8;
+        const divYield = stock.stateOwned ? (6 + random() * 8) : (2 + random() * 6);
+
+        await storage.upsertFundamental({
+          ticker: stock.ticker,
+          date: `${year}-${String(q * 3).padStart(2, '0')}-01`,
+          price: parseFloat(price.toFixed(2)),
+          pl: parseFloat(pl.toFixed(2)),
+          roe: parseFloat(roe.toFixed(2)),
+          pvp: parseFloat(pvp.toFixed(2)),
+          divYield: parseFloat(divYield.toFixed(2)),
+          liquidity,
+          netIncome12m: Math.round(netProfit * 1_000_000), // generated in millions
+          marketCap: Math.round(netProfit * 1_000_000 * pl),
+          ebitEv: parseFloat((0.08 + random() * 0.25).toFixed(3)),
+          roic: parseFloat((roe - 2 + random() * 5).toFixed(2)),
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,410 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import { getTableColumns, getTableName, type Column } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import {
+  stocks,
+  fundamentals,
+  prices,
+  scrapeRuns,
+  type Stock,
+  type InsertStock,
+  type InsertFundamental,
+  type Fundamental,
+  type Price,
+  type InsertPrice,
+  type ScrapeRun,
+  type InsertScrapeRun,
+  type FilterRequest,
+  type FundamentalMetricKey,
+  type DividendSnapshot
+} from "@shared/schema";
+import type { IStorage, SnapshotRow, IngestResult } from "./storage";
+import { seedData } from "./seed";
+import { rankMagicFormula } from "./magic-formula";
+import { grahamValuation, sortByGrahamUpside } from "./graham";
+import { definedValues } from "./utils";
+
+type Row = Record<string, unknown>;
+
+/**
+ * Maps a `sqlite:` / `file:` DATABASE_URL to a database path:
+ * `sqlite:./data/app.db`, `sqlite:///var/lib/app.db`, `sqlite::memory:`.
+ */
+export function sqlitePath(url: string) {
+  const location = url.replace(/^(sqlite|file):(\/\/)?/, '');
+  if (!location) throw new Error(`No database path in DATABASE_URL "${url}"`);
+  return location;
+}
+
+/**
+ * IStorage on a single SQLite file, for running the dashboard without a database server.
+ * The tables are created from the same definitions as Postgres (shared/schema.ts),
+ * with the unique (ticker, date) snapshot index and cascading foreign keys to stocks.
+ */
+export class SqliteStorage implements IStorage {
+  private db: Database.Database;
+
+  constructor(file: string) {
+    if (file !== ':memory:') {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+    }
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    // SQLite's LIKE and lower() only fold ASCII; this matches Postgres ILIKE on accented names
+    this.db.function('unicode_lower', { deterministic: true }, (value: unknown) =>
+      typeof value === 'string' ? value.toLowerCase() : value);
+
+    this.db.exec(`
+      ${createTable(stocks, ['PRIMARY KEY ("ticker")'])}
+      ${createTable(fundamentals, ['FOREIGN KEY ("ticker") REFERENCES "stocks"("ticker") ON DELETE CASCADE'])}
+      CREATE UNIQUE INDEX IF NOT EXISTS "fundamentals_ticker_date_idx" ON "fundamentals" ("ticker", "date" DESC);
+      CREATE INDEX IF NOT EXISTS "fundamentals_date_idx" ON "fundamentals" ("date" DESC);
+      ${createTable(prices, ['PRIMARY KEY ("ticker", "date")', 'FOREIGN KEY ("ticker") REFERENCES "stocks"("ticker") ON DELETE CASCADE'])}
+      ${createTable(scrapeRuns, [])}
+    `);
+
+    // Databases created by an older version keep their tables; add the columns introduced since
+    for (const table of [stocks, fundamentals, prices, scrapeRuns]) {
+      const existing = new Set((this.db.pragma(`table_info("${getTableName(table)}")`) as { name: string }[]).map((c) => c.name));
+      for (const column of Array.from(columnsOf(table).values())) {
+        if (!existing.has(column.name)) {
+          this.db.exec(`ALTER TABLE "${getTableName(table)}" ADD COLUMN ${columnDefinition(column)}`);
+        }
+      }
+    }
+    // scrape_runs.job_id became nullable; it has no foreign keys or indexes, so it can be rebuilt
+    this.dropStaleNotNull(scrapeRuns);
+  }
+
+  async getStocks(filters: FilterRequest = {}) {
+    const stockColumns = columnsOf(stocks);
+    const fundamentalColumns = columnsOf(fundamentals);
+
+    const conditions = ['l."rn" = 1'];
+    const params: unknown[] = [];
+    if (filters.search) {
+      const pattern = `%${filters.search.toLowerCase()}%`;
+      conditions.push('(unicode_lower(s."ticker") LIKE ? OR unicode_lower(s."name") LIKE ?)');
+      params.push(pattern, pattern);
+    }
+    if (filters.excludeStateOwned) {
+      conditions.push('s."is_state_owned" = 0');
+    }
+    if (filters.sector?.length) {
+      conditions.push(`s."sector" IN (${filters.sector.map(() => '?').join(', ')})`);
+      params.push(...filters.sector);
+    }
+    if (filters.subsector?.length) {
+      conditions.push(`s."subsector" IN (${filters.subsector.map(() => '?').join(', ')})`);
+      params.push(...filters.subsector);
+    }
+    const bounds: [FundamentalMetricKey, '>=' | '<=', number | undefined][] = [
+      ['pl', '<=', filters.maxPl],
+      ['roe', '>=', filters.minRoe],
+      ['pvp', '<=', filters.maxPvp],
+      ['divYield', '>=', filters.minDivYield],
+      ['liquidity', '>=', filters.minLiquidity],
+      ...Object.entries(filters.min ?? {}).map(([key, bound]) => [key, '>=', bound] as [FundamentalMetricKey, '>=', number]),
+      ...Object.entries(filters.max ?? {}).map(([key, bound]) => [key, '<=', bound] as [FundamentalMetricKey, '<=', number]),
+    ];
+    for (const [key, op, bound] of bounds) {
+      if (bound === undefined) continue;
+      conditions.push(`l."${fundamentalColumns.get(key)!.name}" ${op} ?`);
+      params.push(bound);
+    }
+
+    const select = [
+      ...Array.from(stockColumns.values()).map((c) => `s."${c.name}" AS "s.${c.name}"`),
+      ...Array.from(fundamentalColumns.values()).map((c) => `l."${c.name}" AS "l.${c.name}"`),
+    ];
+    const rows = this.db.prepare(`
+      WITH l AS (
+        SELECT *, ROW_NUMBER() OVER (PARTITION BY "ticker" ORDER BY "date" DESC, "id" DESC) AS "rn"
+        FROM "fundamentals"
+      )
+      SELECT ${select.join(', ')}
+      FROM "stocks" s
+      INNER JOIN l ON l."ticker" = s."ticker"
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY s."ticker"
+    `).all(...params) as Row[];
+
+    const results: any[] = rows.map((row) => {
+      const latest = fromRow<Fundamental>(fundamentals, row, 'l.');
+      return { ...fromRow<Stock>(stocks, row, 's.'), latest, graham: grahamValuation(latest) };
+    });
+
+    // Rows come back by ticker; re-sort for the requested strategy
+    if (filters.sortBy === 'magic_formula') {
+      rankMagicFormula(results);
+    } else if (filters.sortBy === 'graham_upside') {
+      sortByGrahamUpside(results);
+    }
+
+    return results;
+  }
+
+  async getStock(ticker: string) {
+    const stock = this.db.prepare('SELECT * FROM "stocks" WHERE "ticker" = ?').get(ticker) as Row | undefined;
+    if (!stock) return undefined;
+
+    const history = this.db.prepare('SELECT * FROM "fundamentals" WHERE "ticker" = ? ORDER BY "date" ASC')
+      .all(ticker) as Row[];
+
+    return {
+      stock: fromRow<Stock>(stocks, stock),
+      history: history.map((row) => fromRow<Fundamental>(fundamentals, row)),
+    };
+  }
+
+  async getPrices(ticker: string, range: { from?: string; to?: string } = {}) {
+    const conditions = ['"ticker" = ?'];
+    const params: unknown[] = [ticker];
+    if (range.from) {
+      conditions.push('"date" >= ?');
+      params.push(range.from);
+    }
+    if (range.to) {
+      conditions.push('"date" <= ?');
+      params.push(range.to);
+    }
+
+    const rows = this.db.prepare(`SELECT * FROM "prices" WHERE ${conditions.join(' AND ')} ORDER BY "date" ASC`)
+      .all(...params) as Row[];
+    return rows.map((row) => fromRow<Price>(prices, row));
+  }
+
+  async getStocksToClassify(classifiedBefore: string) {
+    // Timestamps are ISO strings, which compare in time order
+    const rows = this.db.prepare(`
+      SELECT * FROM "stocks"
+      WHERE "is_demo" = 0 AND ("classified_at" IS NULL OR "classified_at" < ?)
+      ORDER BY "ticker"
+    `).all(classifiedBefore) as Row[];
+    return rows.map((row) => fromRow<Stock>(stocks, row));
+  }
+
+  async getDividendHistory(since: string) {
+    return this.db.prepare(`
+      SELECT "ticker", "date", "price", "div_yield" AS "divYield" FROM "fundamentals"
+      WHERE "date" >= ? AND "price" IS NOT NULL AND "div_yield" IS NOT NULL
+      ORDER BY "ticker", "date"
+    `).all(since) as DividendSnapshot[];
+  }
+
+  async getBalanceSheets(since: string) {
+    const rows = this.db.prepare(`
+      SELECT * FROM "fundamentals"
+      WHERE "date" >= ? AND "total_assets" IS NOT NULL
+      ORDER BY "ticker", "date"
+    `).all(since) as Row[];
+    return rows.map((row) => fromRow<Fundamental>(fundamentals, row));
+  }
+
+  async createStock(stock: InsertStock) {
+    return this.insert<Stock>(stocks, stock);
+  }
+
+  async addFundamental(data: InsertFundamental) {
+    return this.insert<Fundamental>(fundamentals, data);
+  }
+
+  async upsertStock(stock: InsertStock) {
+    const { ticker, ...fields } = stock;
+    return this.insert<Stock>(stocks, stock, ['ticker'], Object.keys(definedValues(fields)));
+  }
+
+  async upsertFundamental(data: InsertFundamental) {
+    const { ticker, date, ...metrics } = data;
+    return this.insert<Fundamental>(fundamentals, data, ['ticker', 'date'], Object.keys(definedValues(metrics)));
+  }
+
+  async upsertPrice(data: InsertPrice) {
+    return this.insert<Price>(prices, data, ['ticker', 'date'], ['close']);
+  }
+
+  /**
+   * Same semantics as DatabaseStorage.ingestSnapshot, in one SQLite transaction.
+   */
+  async ingestSnapshot(rows: SnapshotRow[], onBatch?: (tickers: string[]) => void) {
+    const result: IngestResult = { stocksCreated: 0, stocksUpdated: 0, fundamentalsCreated: 0, fundamentalsUpdated: 0 };
+    if (rows.length === 0) return result;
+
+    const { ticker: _ticker, date: _date, ...metrics } = rows[0].fundamental;
+    const metricKeys = Object.keys(metrics);
+
+    const stockExists = this.db.prepare('SELECT 1 FROM "stocks" WHERE "ticker" = ?').pluck();
+    const fundamentalExists = this.db.prepare('SELECT 1 FROM "fundamentals" WHERE "ticker" = ? AND "date" = ?').pluck();
+
+    this.db.transaction(() => {
+      // Relies on the cascading foreign keys enabled in the constructor
+      this.db.prepare('DELETE FROM "stocks" WHERE "is_demo" = 1').run();
+
+      for (const row of rows) {
+        if (stockExists.get(row.stock.ticker)) {
+          result.stocksUpdated++;
+        } else {
+          result.stocksCreated++;
+        }
+        this.insert(stocks, row.stock, ['ticker'], ['name', 'isStateOwned']);
+
+        if (fundamentalExists.get(row.fundamental.ticker, row.fundamental.date)) {
+          result.fundamentalsUpdated++;
+        } else {
+          result.fundamentalsCreated++;
+        }
+        const fundamental = Object.fromEntries(metricKeys.map((key) => [key, (row.fundamental as Row)[key] ?? null]));
+        this.insert(fundamentals, { ...fundamental, ticker: row.fundamental.ticker, date: row.fundamental.date }, ['ticker', 'date'], metricKeys);
+
+        if (row.price) {
+          this.insert(prices, row.price, ['ticker', 'date'], ['close']);
+        }
+      }
+    })();
+
+    onBatch?.(rows.map((row) => row.stock.ticker));
+    return result;
+  }
+
+  async createScrapeRun(data: InsertScrapeRun) {
+    return this.insert<ScrapeRun>(scrapeRuns, data);
+  }
+
+  async updateScrapeRun(id: number, data: Partial<InsertScrapeRun>) {
+    const values = toRow(scrapeRuns, definedValues(data));
+    const assignments = Object.keys(values).map((column) => `"${column}" = @${column}`);
+    const row = this.db.prepare(`UPDATE "scrape_runs" SET ${assignments.join(', ')} WHERE "id" = @id RETURNING *`)
+      .get({ ...values, id }) as Row | undefined;
+    if (!row) throw new Error(`Scrape run ${id} not found`);
+    return fromRow<ScrapeRun>(scrapeRuns, row);
+  }
+
+  async getScrapeRuns(limit = 50) {
+    const rows = this.db.prepare('SELECT * FROM "scrape_runs" ORDER BY "started_at" DESC LIMIT ?').all(limit) as Row[];
+    return rows.map((row) => fromRow<ScrapeRun>(scrapeRuns, row));
+  }
+
+  async seedData() {
+    await seedData(this);
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  /**
+   * SQLite cannot drop a NOT NULL constraint, so a table still enforcing one the
+   * schema no longer has is copied into a freshly created one
+   */
+  private dropStaleNotNull(table: PgTable) {
+    const name = getTableName(table);
+    const nullable = new Set(Array.from(columnsOf(table).values()).filter((c) => !c.notNull).map((c) => c.name));
+    const existing = this.db.pragma(`table_info("${name}")`) as { name: string; notnull: number }[];
+    if (!existing.some((column) => column.notnull && nullable.has(column.name))) return;
+
+    const columns = existing.map((column) => `"${column.name}"`).join(', ');
+    this.db.transaction(() => {
+      this.db.exec(`ALTER TABLE "${name}" RENAME TO "${name}_old"`);
+      this.db.exec(createTable(table, []));
+      this.db.exec(`INSERT INTO "${name}" (${columns}) SELECT ${columns} FROM "${name}_old"`);
+      this.db.exec(`DROP TABLE "${name}_old"`);
+    })();
+  }
+
+  /**
+   * INSERT ... RETURNING, optionally as an upsert on `conflict` that updates `update`
+   * (property names). An empty `update` on conflict leaves the row as it is.
+   */
+  private insert<T>(table: PgTable, data: object, conflict?: string[], update: string[] = []): T {
+    const columns = columnsOf(table);
+    const values = toRow(table, definedValues(data));
+    const names = Object.keys(values);
+
+    let statement = `INSERT INTO "${getTableName(table)}" (${names.map((n) => `"${n}"`).join(', ')})
+      VALUES (${names.map((n) => `@${n}`).join(', ')})`;
+    if (conflict) {
+      const target = conflict.map((key) => `"${columns.get(key)!.name}"`).join(', ');
+      // A no-op update still returns the existing row, unlike DO NOTHING
+      const set = (update.length > 0 ? update : [conflict[0]])
+        .map((key) => columns.get(key)!.name)
+        .map((column) => `"${column}" = excluded."${column}"`);
+      statement += ` ON CONFLICT (${target}) DO UPDATE SET ${set.join(', ')}`;
+    }
+
+    const row = this.db.prepare(`${statement} RETURNING *`).get(values) as Row;
+    return fromRow<T>(table, row);
+  }
+}
+
+function columnsOf(table: PgTable) {
+  return new Map(Object.entries(getTableColumns(table)) as [string, Column][]);
+}
+
+// CREATE TABLE for a pg table definition, with SQLite column types
+function createTable(table: PgTable, constraints: string[]) {
+  const columns = Array.from(columnsOf(table).values()).map(columnDefinition);
+  return `CREATE TABLE IF NOT EXISTS "${getTableName(table)}" (${[...columns, ...constraints].join(', ')});`;
+}
+
+function columnDefinition(column: Column) {
+  if (column.columnType === 'PgSerial') {
+    return `"${column.name}" INTEGER PRIMARY KEY AUTOINCREMENT`;
+  }
+  let definition = `"${column.name}" ${sqliteType(column)}`;
+  if (column.notNull) definition += ' NOT NULL';
+  if (column.default !== undefined) definition += ` DEFAULT ${sqlLiteral(toSqlite(column, column.default))}`;
+  return definition;
+}
+
+function sqliteType(column: Column) {
+  switch (column.columnType) {
+    case 'PgInteger':
+    case 'PgBoolean':
+      return 'INTEGER';
+    case 'PgReal':
+    case 'PgDoublePrecision':
+      return 'REAL';
+    default:
+      return 'TEXT';
+  }
+}
+
+function sqlLiteral(value: unknown) {
+  return typeof value === 'string' ? `'${value.replace(/'/g, "''")}'` : String(value);
+}
+
+// Booleans are stored as 0/1 and jsonb as JSON text
+function toSqlite(column: Column, value: unknown) {
+  if (value === null || value === undefined) return null;
+  if (column.columnType === 'PgBoolean') return value ? 1 : 0;
+  if (column.columnType === 'PgJsonb') return JSON.stringify(value);
+  return value;
+}
+
+function fromSqlite(column: Column, value: unknown) {
+  if (value === null || value === undefined) return null;
+  if (column.columnType === 'PgBoolean') return value === 1;
+  if (column.columnType === 'PgJsonb') return JSON.parse(value as string);
+  return value;
+}
+
+// Property names to column names
+function toRow(table: PgTable, data: object) {
+  const columns = columnsOf(table);
+  return Object.fromEntries(Object.entries(data).map(([key, value]) => {
+    const column = columns.get(key);
+    if (!column) throw new Error(`Unknown column ${key} on ${getTableName(table)}`);
+    return [column.name, toSqlite(column, value)];
+  }));
+}
+
+// Column names (optionally prefixed in a join) to property names
+function fromRow<T>(table: PgTable, row: Row, prefix = ''): T {
+  return Object.fromEntries(
+    Array.from(columnsOf(table)).map(([key, column]) => [key, fromSqlite(column, row[`${prefix}${column.name}`])]),
+  ) as T;
+}
+
@@ -0,0 +1,267 @@
+import { describe, it, before, beforeEach, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { sql } from 'drizzle-orm';
+import { migrate } from 'drizzle-orm/node-postgres/migrator';
+import { DatabaseStorage, type IStorage } from './storage';
+import { MemStorage } from './mem-storage';
+import { SqliteStorage } from './sqlite-storage';
+import { getDb, closeDb } from './db';
+
+// The same behaviour is expected from every backend. Postgres runs only when
+// TEST_DATABASE_URL points at a database these tests may wipe.
+const backends: { name: string; skip?: string; setup(): Promise<IStorage> }[] = [
+  { name: 'MemStorage', setup: async () => new MemStorage() },
+  { name: 'SqliteStorage', setup: async () => new SqliteStorage(':memory:') },
+  {
+    name: 'DatabaseStorage',
+    skip: process.env.TEST_DATABASE_URL ? undefined : 'TEST_DATABASE_URL is not set',
+    setup: async () => {
+      const db = getDb();
+      await db.execute(sql`TRUNCATE stocks, fundamentals, prices, scrape_runs RESTART IDENTITY CASCADE`);
+      return new DatabaseStorage();
+    },
+  },
+];
+
+async function addStocks(storage: IStorage) {
+  await storage.createStock({ ticker: 'AAAA3', name: 'Alpha', sector: 'Banking', isStateOwned: false });
+  await storage.createStock({ ticker: 'BBBB3', name: 'Beta', sector: 'Utilities', isStateOwned: true });
+  await storage.createStock({ ticker: 'CCCC3', name: 'Gamma', sector: 'Mining', isStateOwned: false });
+  await storage.createStock({ ticker: 'DDDD3', name: 'Delta', sector: 'Retail', isStateOwned: false }); // no snapshots
+
+  await storage.addFundamental({ ticker: 'AAAA3', date: '2024-01-01', pl: 5, roe: 30, roic: 40, ebitEv: 0.5 });
+  await storage.addFundamental({ ticker: 'AAAA3', date: '2024-06-01', pl: 20, roe: 10, roic: 10, ebitEv: 0.125, liquidity: 5_000_000 });
+  await storage.addFundamental({ ticker: 'BBBB3', date: '2024-06-01', pl: 8, roe: 20, roic: 25, ebitEv: 0.25, liquidity: 250_000 });
+  await storage.addFundamental({ ticker: 'CCCC3', date: '2024-05-01', pl: null, roe: 15, roic: 30, ebitEv: 0.375 });
+}
+
+for (const backend of backends) {
+  describe(`${backend.name} parity`, { skip: backend.skip }, () => {
+    let storage: IStorage;
+
+    before(async () => {
+      if (backend.name === 'DatabaseStorage') {
+        process.env.DATABASE_URL = process.env.TEST_DATABASE_URL;
+        await migrate(getDb(), { migrationsFolder: 'migrations' });
+      }
+    });
+
+    beforeEach(async () => {
+      storage = await backend.setup();
+      await addStocks(storage);
+    });
+
+    after(async () => {
+      if (backend.name === 'DatabaseStorage') await closeDb();
+    });
+
+    it('lists stocks with their latest snapshot, skipping stocks without one', async () => {
+      const stocks = await storage.getStocks();
+      assert.deepEqual(stocks.map((s) => [s.ticker, s.latest.date]), [
+        ['AAAA3', '2024-06-01'],
+        ['BBBB3', '2024-06-01'],
+        ['CCCC3', '2024-05-01'],
+      ]);
+      assert.equal(stocks[1].isStateOwned, true);
+      assert.equal(stocks[2].latest.pl, null);
+    });
+
+    it('filters on the latest snapshot only', async () => {
+      assert.deepEqual((await storage.getStocks({ maxPl: 15 })).map((s) => s.ticker), ['BBBB3']);
+      assert.deepEqual((await storage.getStocks({ minRoe: 12 })).map((s) => s.ticker), ['BBBB3', 'CCCC3']);
+      assert.deepEqual((await storage.getStocks({ minLiquidity: 1_000_000 })).map((s) => s.ticker), ['AAAA3']);
+      assert.deepEqual((await storage.getStocks({ min: { roic: 20 }, max: { ebitEv: 0.3 } })).map((s) => s.ticker), ['BBBB3']);
+      assert.deepEqual((await storage.getStocks({ search: 'gam' })).map((s) => s.ticker), ['CCCC3']);
+      assert.deepEqual((await storage.getStocks({ excludeStateOwned: true })).map((s) => s.ticker), ['AAAA3', 'CCCC3']);
+      assert.deepEqual((await storage.getStocks({ sector: ['Banking', 'Mining'] })).map((s) => s.ticker), ['AAAA3', 'CCCC3']);
+      assert.deepEqual((await storage.getStocks({ subsector: ['Retail banks'] })).map((s) => s.ticker), []);
+    });
+
+    it('searches accented names regardless of case', async () => {
+      await storage.createStock({ ticker: 'EEEE3', name: 'Águas Paraná', sector: 'Sanitation', isStateOwned: false });
+      await storage.addFundamental({ ticker: 'EEEE3', date: '2024-06-01', pl: 10 });
+
+      assert.deepEqual((await storage.getStocks({ search: 'águas' })).map((s) => s.ticker), ['EEEE3']);
+      assert.deepEqual((await storage.getStocks({ search: 'PARANÁ' })).map((s) => s.ticker), ['EEEE3']);
+      assert.deepEqual((await storage.getStocks({ search: 'eeee' })).map((s) => s.ticker), ['EEEE3']);
+    });
+
+    it('ranks by the Magic Formula, leaving banks unranked', async () => {
+      const stocks = await storage.getStocks({ sortBy: 'magic_formula' });
+      assert.deepEqual(stocks.map((s) => [s.ticker, s.magicRank]), [['CCCC3', 2], ['BBBB3', 4], ['AAAA3', null]]);
+    });
+
+    it('values stocks at their Graham number', async () => {
+      await storage.upsertFundamental({ ticker: 'AAAA3', date: '2024-06-01', price: 20, pl: 10, pvp: 1 });
+      await storage.upsertFundamental({ ticker: 'BBBB3', date: '2024-06-01', price: 10, pvp: 0.5 });
+
+      const stocks = await storage.getStocks({ sortBy: 'graham_upside' });
+      assert.deepEqual(stocks.map((s) => s.ticker), ['BBBB3', 'AAAA3', 'CCCC3']);
+      assert.equal(stocks[1].graham?.fairValue, 30);
+      assert.equal(stocks[2].graham, null);
+    });
+
+    it('lists the dividend history of every stock', async () => {
+      await storage.upsertFundamental({ ticker: 'AAAA3', date: '2024-01-01', price: 10, divYield: 5 });
+      await storage.upsertFundamental({ ticker: 'AAAA3', date: '2024-06-01', price: 12, divYield: 6 });
+      await storage.upsertFundamental({ ticker: 'BBBB3', date: '2024-06-01', price: 8, divYield: 9 });
+
+      assert.deepEqual(await storage.getDividendHistory('2024-02-01'), [
+        { ticker: 'AAAA3', date: '2024-06-01', price: 12, divYield: 6 },
+        { ticker: 'BBBB3', date: '2024-06-01', price: 8, divYield: 9 },
+      ]);
+      assert.equal((await storage.getDividendHistory('2023-01-01')).length, 3);
+    });
+
+    it('lists the snapshots carrying a balance sheet', async () => {
+      await storage.upsertFundamental({ ticker: 'BBBB3', date: '2024-06-01', totalAssets: 1_000, netIncome12m: 50 });
+      await storage.upsertFundamental({ ticker: 'AAAA3', date: '2024-06-01', totalAssets: 2_000, assetTurnover: 0.4 });
+
+      const sheets = await storage.getBalanceSheets('2024-01-01');
+      assert.deepEqual(sheets.map((row) => [row.ticker, row.totalAssets]), [['AAAA3', 2_000], ['BBBB3', 1_000]]);
+      assert.equal(sheets[0].assetTurnover, 0.4);
+      assert.equal(sheets[0].pl, 20, 'the whole snapshot is returned');
+      assert.deepEqual(await storage.getBalanceSheets('2024-07-01'), []);
+    });
+
+    it('returns a stock with its history in date order', async () => {
+      const data = await storage.getStock('AAAA3');
+      assert.equal(data?.stock.name, 'Alpha');
+      assert.deepEqual(data?.history.map((row) => row.date), ['2024-01-01', '2024-06-01']);
+      assert.equal(await storage.getStock('ZZZZ3'), undefined);
+    });
+
+    it('upserts stocks, snapshots and prices', async () => {
+      await storage.upsertStock({ ticker: 'AAAA3', name: 'Alpha SA', sector: 'Banks', subsector: 'Retail banks' });
+      await storage.upsertFundamental({ ticker: 'AAAA3', date: '2024-06-01', revenue12m: 1_500_000_000 });
+      await storage.upsertPrice({ ticker: 'AAAA3', date: '2024-06-01', close: 10.5 });
+      await storage.upsertPrice({ ticker: 'AAAA3', date: '2024-06-01', close: 11 });
+      await storage.upsertPrice({ ticker: 'AAAA3', date: '2024-07-01', close: 12 });
+
+      const data = await storage.getStock('AAAA3');
+      assert.equal(data?.stock.subsector, 'Retail banks');
+      assert.equal(data?.history.length, 2);
+      assert.equal(data?.history[1].pl, 20, 'metrics left out keep their value');
+      assert.equal(data?.history[1].revenue12m, 1_500_000_000);
+
+      assert.deepEqual((await storage.getPrices('AAAA3')).map((p) => p.close), [11, 12]);
+      assert.deepEqual((await storage.getPrices('AAAA3', { from: '2024-06-15' })).map((p) => p.date), ['2024-07-01']);
+    });
+
+    it('rejects duplicate snapshots and snapshots for unknown stocks', async () => {
+      await assert.rejects(storage.addFundamental({ ticker: 'BBBB3', date: '2024-06-01' }));
+      await assert.rejects(storage.addFundamental({ ticker: 'ZZZZ3', date: '2024-06-01' }));
+    });
+
+    it('ingests a snapshot and counts created and updated rows', async () => {
+      const result = await storage.ingestSnapshot([
+        {
+          stock: { ticker: 'AAAA3', name: 'Alpha SA', sector: 'Unknown', subsector: null, isStateOwned: false },
+          fundamental: { ticker: 'AAAA3', date: '2024-06-01', pl: 12, roe: 11 },
+          price: { ticker: 'AAAA3', date: '2024-06-01', close: 10 },
+        },
+        {
+          stock: { ticker: 'EEEE3', name: 'Epsilon', sector: 'Unknown', subsector: null, isStateOwned: false },
+          fundamental: { ticker: 'EEEE3', date: '2024-06-01', pl: 7, roe: 9 },
+        },
+      ]);
+
+      assert.deepEqual(result, { stocksCreated: 1, stocksUpdated: 1, fundamentalsCreated: 1, fundamentalsUpdated: 1 });
+      const alpha = await storage.getStock('AAAA3');
+      assert.equal(alpha?.stock.name, 'Alpha SA');
+      assert.equal(alpha?.stock.sector, 'Banking', 'sector from detalhes.php is kept');
+      assert.equal(alpha?.history[1].pl, 12);
+      assert.equal(alpha?.history[1].liquidity, 5_000_000, 'columns outside the snapshot are kept');
+      assert.equal((await storage.getPrices('AAAA3'))[0].close, 10);
+    });
+
+    it('stores nothing when part of a snapshot fails', async () => {
+      await assert.rejects(storage.ingestSnapshot([
+        {
+          stock: { ticker: 'EEEE3', name: 'Epsilon', sector: 'Unknown', subsector: null, isStateOwned: false },
+          fundamental: { ticker: 'EEEE3', date: '2024-06-01', pl: 7 },
+        },
+        {
+          stock: { ticker: 'FFFF3', name: 'Phi', sector: 'Unknown', subsector: null, isStateOwned: false },
+          fundamental: { ticker: 'ZZZZ3', date: '2024-06-01', pl: 7 }, // no such stock
+        },
+      ]));
+
+      assert.equal(await storage.getStock('EEEE3'), undefined);
+      assert.equal(await storage.getStock('FFFF3'), undefined);
+    });
+
+    it('replaces demo data with the next snapshot', async () => {
+      await storage.createStock({ ticker: 'DEMO3', name: 'Demo', sector: 'Demo', isDemo: true });
+      await storage.addFundamental({ ticker: 'DEMO3', date: '2024-06-01', pl: 1 });
+      await storage.upsertPrice({ ticker: 'DEMO3', date: '2024-06-01', close: 1 });
+
+      await storage.ingestSnapshot([{
+        stock: { ticker: 'EEEE3', name: 'Epsilon', sector: 'Unknown', subsector: null, isStateOwned: false },
+        fundamental: { ticker: 'EEEE3', date: '2024-06-01', pl: 7 },
+      }]);
+
+      assert.equal(await storage.getStock('DEMO3'), undefined);
+      assert.deepEqual(await storage.getPrices('DEMO3'), []);
+      assert.equal((await storage.getStock('EEEE3'))?.stock.isDemo, false);
+      assert.equal((await storage.getStocks()).length, 4);
+    });
+
+    it('seeds demo data without touching stocks already stored', async () => {
+      const empty = await backend.setup();
+      await empty.createStock({ ticker: 'PETR4', name: 'Petrobras PN', sector: 'Energy' }); // no snapshots yet
+      await empty.seedData();
+
+      const kept = await empty.getStock('PETR4');
+      assert.equal(kept?.stock.isDemo, false);
+      assert.equal(kept?.stock.sector, 'Energy');
+      assert.deepEqual(kept?.history, []);
+      assert.equal((await empty.getStock('VALE3'))?.stock.isDemo, true);
+    });
+
+    it('queues stocks whose classification is missing or stale', async () => {
+      await storage.upsertStock({ ticker: 'AAAA3', name: 'Alpha', classifiedAt: '2026-10-10T12:00:00.000Z' });
+      await storage.upsertStock({ ticker: 'BBBB3', name: 'Beta', classifiedAt: '2026-09-01T12:00:00.000Z' });
+      await storage.createStock({ ticker: 'DEMO3', name: 'Demo', isDemo: true });
+
+      const queue = await storage.getStocksToClassify('2026-10-01T00:00:00.000Z');
+      assert.deepEqual(queue.map((stock) => stock.ticker), ['BBBB3', 'CCCC3', 'DDDD3']);
+      assert.equal((await storage.getStock('AAAA3'))?.stock.sector, 'Banking', 'name-only upsert keeps the sector');
+    });
+
+    it('records scrape runs, newest first', async () => {
+      const first = await storage.createScrapeRun({ jobId: 'a', trigger: 'manual', status: 'running', startedAt: '2026-10-01T10:00:00.000Z' });
+      await storage.createScrapeRun({ jobId: 'b', trigger: 'schedule', status: 'running', startedAt: '2026-10-02T10:00:00.000Z' });
+      const updated = await storage.updateScrapeRun(first.id, {
+        status: 'failed',
+        error: 'boom',
+        tickerErrors: [{ ticker: 'AAAA3', message: 'bad row' }],
+      });
+
+      assert.equal(updated.status, 'failed');
+      assert.equal(updated.trigger, 'manual');
+      assert.deepEqual(updated.tickerErrors, [{ ticker: 'AAAA3', message: 'bad row' }]);
+
+      const runs = await storage.getScrapeRuns(10);
+      assert.deepEqual(runs.map((run) => run.jobId), ['b', 'a']);
+      assert.deepEqual(runs[0].tickerErrors, []);
+      assert.equal(runs[0].finishedAt, null);
+      assert.equal((await storage.getScrapeRuns(1)).length, 1);
+    });
+
+    it('records skipped runs without a job', async () => {
+      await storage.createScrapeRun({
+        trigger: 'schedule',
+        status: 'skipped',
+        startedAt: '2026-10-12T22:00:00.000Z',
+        finishedAt: '2026-10-12T22:00:00.000Z',
+        skipReason: 'B3 holiday',
+      });
+
+      const [run] = await storage.getScrapeRuns(1);
+      assert.equal(run.jobId, null);
+      assert.equal(run.status, 'skipped');
+      assert.equal(run.skipReason, 'B3 holiday');
+    });
+  });
+}
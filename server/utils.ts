@@ -0,0 +1,7 @@
+/**
+ * Drops undefined properties: stored rows keep their value, and option defaults
+ * apply, wherever a field is left undefined
+ */
+export function definedValues<T extends object>(data: T) {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as T;
+}
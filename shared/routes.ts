@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { insertStockSchema, insertFundamentalSchema, stocks, fundamentals } from './schema';
+import { insertStockSchema, insertFundamentalSchema, stocks, fundamentals, prices, scrapeRuns, fundamentalMetricKeys, type ScrapeJob, type EnrichJob, type SectorSummary, type SectorDetail, type StockPeers, type StockWithHistory, type StockWithLatestFundamental, type MagicFormulaRanked, type ScheduleStatus, type ScheduledRun, piotroskiMaxScore } from './schema';
 
 export const api = {
   stocks: {
@@ -12,21 +12,40 @@ export const api = {
         minRoe: z.coerce.number().optional(),
         maxPvp: z.coerce.number().optional(),
         minDivYield: z.coerce.number().optional(),
+        minLiquidity: z.coerce.number().optional(),
         excludeStateOwned: z.enum(['true', 'false']).optional(),
-        sortBy: z.enum(['magic_formula', 'ticker']).optional(),
+        minFScore: z.coerce.number().int().min(0).max(piotroskiMaxScore).optional(), // Drops stocks without an F-score when above 0
+        sector: z.union([z.string(), z.array(z.string())]).optional(),    // Repeat to match any of several
+        subsector: z.union([z.string(), z.array(z.string())]).optional(),
+        min: z.record(z.enum(fundamentalMetricKeys), z.coerce.number()).optional(),
+        max: z.record(z.enum(fundamentalMetricKeys), z.coerce.number()).optional(),
+        sortBy: z.enum(['magic_formula', 'graham_upside', 'ticker']).optional(),
       }).optional(),
       responses: {
         200: z.array(z.custom<any>()), // Returns enriched stock objects
+        400: z.object({ message: z.string() }),
       },
     },
     get: {
       method: 'GET' as const,
       path: '/api/stocks/:ticker',
       responses: {
-        200: z.custom<any>(), // Stock with history
+        200: z.custom<StockWithHistory>(),
         404: z.object({ message: z.string() }),
       },
     },
+    prices: {
+      method: 'GET' as const,
+      path: '/api/stocks/:ticker/prices',
+      input: z.object({
+        from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD').optional(),
+        to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD').optional(),
+      }),
+      responses: {
+        200: z.array(z.custom<typeof prices.$inferSelect>()),
+        400: z.object({ message: z.string() }),
+      },
+    },
     // For manual data entry/seeding if needed
     create: {
       method: 'POST' as const,
@@ -48,17 +67,58 @@ export const api = {
       method: 'POST' as const,
       path: '/api/scrape',
       responses: {
-        200: z.object({
+        202: z.object({
           message: z.string(),
-          scraped: z.number(),
-          stocksCreated: z.number(),
-          stocksUpdated: z.number(),
-          fundamentalsCreated: z.number(),
+          job: z.custom<ScrapeJob>(),
         }),
-        500: z.object({
+      }
+    },
+    scrapeRuns: {
+      method: 'GET' as const,
+      path: '/api/scrape/runs',
+      input: z.object({
+        limit: z.coerce.number().int().positive().optional(),
+      }).optional(),
+      responses: {
+        200: z.array(z.custom<typeof scrapeRuns.$inferSelect>()),
+      }
+    },
+    scrapeJob: {
+      method: 'GET' as const,
+      path: '/api/scrape/jobs/:id',
+      responses: {
+        200: z.custom<ScrapeJob>(),
+        404: z.object({ message: z.string() }),
+      }
+    },
+    peers: {
+      method: 'GET' as const,
+      path: '/api/stocks/:ticker/peers',
+      responses: {
+        200: z.custom<StockPeers>(),
+        404: z.object({ message: z.string() }),
+      }
+    },
+    enrich: {
+      method: 'POST' as const,
+      path: '/api/enrich',
+      input: z.object({
+        maxAgeDays: z.coerce.number().int().nonnegative().optional(), // 0 re-classifies every stock
+      }),
+      responses: {
+        202: z.object({
           message: z.string(),
-          error: z.string().optional(),
+          job: z.custom<EnrichJob>(),
         }),
+        400: z.object({ message: z.string() }),
+      }
+    },
+    enrichJob: {
+      method: 'GET' as const,
+      path: '/api/enrich/jobs/:id',
+      responses: {
+        200: z.custom<EnrichJob>(),
+        404: z.object({ message: z.string() }),
       }
     },
     scrapeDetail: {
@@ -72,6 +132,46 @@ export const api = {
             name: z.string(),
             sector: z.string(),
             subsector: z.string(),
+            price: z.number().nullable(),
+            min52w: z.number().nullable(),
+            max52w: z.number().nullable(),
+            liquidity: z.number().nullable(),
+            marketCap: z.number().nullable(),
+            firmValue: z.number().nullable(),
+            sharesOutstanding: z.number().nullable(),
+            pl: z.number().nullable(),
+            pvp: z.number().nullable(),
+            psr: z.number().nullable(),
+            pAtivo: z.number().nullable(),
+            pCapGiro: z.number().nullable(),
+            pEbit: z.number().nullable(),
+            pAtivCircLiq: z.number().nullable(),
+            evEbitda: z.number().nullable(),
+            ebitEv: z.number().nullable(),
+            divYield: z.number().nullable(),
+            roe: z.number().nullable(),
+            roic: z.number().nullable(),
+            revenueGrowth5y: z.number().nullable(),
+            lpa: z.number().nullable(),
+            vpa: z.number().nullable(),
+            grossMargin: z.number().nullable(),
+            ebitMargin: z.number().nullable(),
+            netMargin: z.number().nullable(),
+            currentLiquidity: z.number().nullable(),
+            grossDebtEquity: z.number().nullable(),
+            assetTurnover: z.number().nullable(),
+            totalAssets: z.number().nullable(),
+            currentAssets: z.number().nullable(),
+            cash: z.number().nullable(),
+            grossDebt: z.number().nullable(),
+            netDebt: z.number().nullable(),
+            netWorth: z.number().nullable(),
+            revenue12m: z.number().nullable(),
+            ebit12m: z.number().nullable(),
+            netIncome12m: z.number().nullable(),
+            revenue3m: z.number().nullable(),
+            ebit3m: z.number().nullable(),
+            netIncome3m: z.number().nullable(),
           }),
         }),
         404: z.object({
@@ -84,6 +184,86 @@ export const api = {
       }
     }
   },
+  sectors: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/sectors',
+      responses: {
+        200: z.array(z.custom<SectorSummary>()),
+      }
+    },
+    get: {
+      method: 'GET' as const,
+      path: '/api/sectors/:sector',
+      responses: {
+        200: z.custom<SectorDetail>(),
+        404: z.object({ message: z.string() }),
+      }
+    },
+  },
+  strategies: {
+    magicFormula: {
+      method: 'GET' as const,
+      path: '/api/strategies/magic-formula',
+      input: z.object({
+        excludeFinancials: z.enum(['true', 'false']).optional(),  // Default true
+        excludeSectors: z.union([z.string(), z.array(z.string())]).optional(), // Repeat to exclude several
+        minLiquidity: z.coerce.number().nonnegative().optional(),
+        minMarketCap: z.coerce.number().nonnegative().optional(),
+        negativeEbit: z.enum(['exclude', 'rank']).optional(),     // Default exclude
+        dropNulls: z.enum(['true', 'false']).optional(),          // Default true
+        oneClassPerCompany: z.enum(['true', 'false']).optional(), // Default false
+      }),
+      responses: {
+        200: z.array(z.custom<MagicFormulaRanked>()),
+        400: z.object({ message: z.string() }),
+      }
+    },
+    bazin: {
+      method: 'GET' as const,
+      path: '/api/strategies/bazin',
+      input: z.object({
+        years: z.coerce.number().int().min(1).max(10).optional(),  // Years of dividends to average, default 5
+        minYield: z.coerce.number().positive().optional(),          // Required yield in %, default 6
+      }),
+      responses: {
+        200: z.array(z.custom<StockWithLatestFundamental>()),
+        400: z.object({ message: z.string() }),
+      }
+    },
+  },
+  admin: {
+    schedule: {
+      method: 'GET' as const,
+      path: '/api/admin/schedule',
+      responses: {
+        200: z.custom<ScheduleStatus>(),
+      }
+    },
+    pauseSchedule: {
+      method: 'POST' as const,
+      path: '/api/admin/schedule/pause',
+      responses: {
+        200: z.custom<ScheduleStatus>(),
+        409: z.object({ message: z.string() }),
+      }
+    },
+    resumeSchedule: {
+      method: 'POST' as const,
+      path: '/api/admin/schedule/resume',
+      responses: {
+        200: z.custom<ScheduleStatus>(),
+        409: z.object({ message: z.string() }),
+      }
+    },
+    triggerSchedule: {
+      method: 'POST' as const,
+      path: '/api/admin/schedule/trigger',
+      responses: {
+        202: z.custom<ScheduledRun>(),
+      }
+    },
+  },
 };
 
 export function buildUrl(path: string, params?: Record<string, string | number>): string {
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, boolean, real, date } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, boolean, real, doublePrecision, integer, date, timestamp, jsonb, primaryKey, uniqueIndex, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,11 +9,13 @@ export const stocks = pgTable("stocks", {
   sector: text("sector"),
   subsector: text("subsector"),
   isStateOwned: boolean("is_state_owned").default(false),
+  isDemo: boolean("is_demo").notNull().default(false), // Seeded demo data, removed by the next bulk scrape
+  classifiedAt: timestamp("classified_at", { mode: "string", withTimezone: true }), // Sector/subsector last read from detalhes.php
 });
 
 export const fundamentals = pgTable("fundamentals", {
   id: serial("id").primaryKey(),
-  ticker: text("ticker").notNull(),
+  ticker: text("ticker").notNull().references(() => stocks.ticker, { onDelete: "cascade" }),
   date: date("date").notNull(), // Snapshot date for historical analysis
   
   // Basic Analysis
@@ -21,37 +23,322 @@ export const fundamentals = pgTable("fundamentals", {
   roe: real("roe"),         // ROE
   pvp: real("p_vp"),        // P/VP
   divYield: real("div_yield"), // Dividend Yield %
-  netProfit: real("net_profit"), // Net Profit (absolute or scaled)
   
   // Magic Formula
   ebitEv: real("ebit_ev"),   // EBIT/EV
   roic: real("roic"),        // ROIC
+
+  // Remaining resultado.php columns
+  price: real("price"),                       // Cotação
+  psr: real("psr"),                           // PSR
+  pAtivo: real("p_ativo"),                    // P/Ativo
+  pCapGiro: real("p_cap_giro"),               // P/Cap.Giro
+  pEbit: real("p_ebit"),                      // P/EBIT
+  pAtivCircLiq: real("p_ativ_circ_liq"),      // P/Ativ Circ.Liq
+  evEbitda: real("ev_ebitda"),                // EV/EBITDA
+  ebitMargin: real("ebit_margin"),            // Mrg Ebit %
+  netMargin: real("net_margin"),              // Mrg. Líq. %
+  currentLiquidity: real("current_liquidity"), // Liq. Corr.
+  liquidity: doublePrecision("liquidity"),    // Liq.2meses (avg. daily traded volume, BRL)
+  netWorth: doublePrecision("net_worth"),     // Patrim. Líq (BRL)
+  grossDebtEquity: real("gross_debt_equity"), // Dív.Brut/ Patrim.
+  revenueGrowth5y: real("revenue_growth_5y"), // Cresc. Rec.5a %
+
+  // Income statement from detalhes.php (absolute BRL)
+  revenue12m: doublePrecision("revenue_12m"),       // Receita Líquida, últimos 12 meses
+  ebit12m: doublePrecision("ebit_12m"),             // EBIT, últimos 12 meses
+  netIncome12m: doublePrecision("net_income_12m"),  // Lucro Líquido, últimos 12 meses
+  revenue3m: doublePrecision("revenue_3m"),         // Receita Líquida, últimos 3 meses
+  ebit3m: doublePrecision("ebit_3m"),               // EBIT, últimos 3 meses
+  netIncome3m: doublePrecision("net_income_3m"),    // Lucro Líquido, últimos 3 meses
+
+  // Company facts from detalhes.php
+  marketCap: doublePrecision("market_cap"),               // Valor de mercado (BRL)
+  firmValue: doublePrecision("firm_value"),               // Valor da firma (BRL)
+  sharesOutstanding: doublePrecision("shares_outstanding"), // Nro. Ações
+  min52w: real("min_52w"),                                // Min 52 sem
+  max52w: real("max_52w"),                                // Max 52 sem
+  lpa: real("lpa"),                                       // LPA (earnings per share)
+  vpa: real("vpa"),                                       // VPA (book value per share)
+  grossMargin: real("gross_margin"),                      // Marg. Bruta %
+  assetTurnover: real("asset_turnover"),                  // Giro Ativos (revenue / total assets)
+  totalAssets: doublePrecision("total_assets"),           // Ativo (BRL)
+  currentAssets: doublePrecision("current_assets"),       // Ativo Circulante (BRL)
+  cash: doublePrecision("cash"),                          // Disponibilidades (BRL)
+  grossDebt: doublePrecision("gross_debt"),               // Dív. Bruta (BRL)
+  netDebt: doublePrecision("net_debt"),                   // Dív. Líquida (BRL)
+}, (table) => [
+  // One snapshot per ticker per day; the scrape upserts against it. Ordered so the
+  // latest snapshot per ticker (DISTINCT ON ticker ... date DESC) is an index scan
+  uniqueIndex("fundamentals_ticker_date_idx").on(table.ticker, table.date.desc()),
+  index("fundamentals_date_idx").on(table.date.desc()),
+]);
+
+// Daily quote history, one row per ticker per scrape date
+export const prices = pgTable("prices", {
+  ticker: text("ticker").notNull().references(() => stocks.ticker, { onDelete: "cascade" }),
+  date: date("date").notNull(),
+  close: doublePrecision("close").notNull(), // Cotação at scrape time (BRL)
+}, (table) => [
+  primaryKey({ columns: [table.ticker, table.date] }),
+]);
+
+// One row per bulk scrape, for auditing data freshness
+export const scrapeRuns = pgTable("scrape_runs", {
+  id: serial("id").primaryKey(),
+  jobId: text("job_id"), // Null when the run was skipped before a job started
+  trigger: text("trigger").$type<ScrapeTrigger>().notNull(),
+  status: text("status").$type<ScrapeRunStatus>().notNull(),
+  startedAt: timestamp("started_at", { mode: "string", withTimezone: true }).notNull(),
+  finishedAt: timestamp("finished_at", { mode: "string", withTimezone: true }),
+
+  // Same counts as the scrape job result
+  scraped: integer("scraped"),
+  stocksCreated: integer("stocks_created"),
+  stocksUpdated: integer("stocks_updated"),
+  fundamentalsCreated: integer("fundamentals_created"),
+  fundamentalsUpdated: integer("fundamentals_updated"),
+
+  skipReason: text("skip_reason"), // Why a scheduled run did not scrape (B3 holiday, scrape already running)
+  error: text("error"), // Fatal error that failed the whole run
+  tickerErrors: jsonb("ticker_errors").$type<{ ticker: string; message: string }[]>().notNull().default([]),
 });
 
 // === SCHEMAS ===
 export const insertStockSchema = createInsertSchema(stocks);
 export const insertFundamentalSchema = createInsertSchema(fundamentals).omit({ id: true });
+export const insertPriceSchema = createInsertSchema(prices);
+export const insertScrapeRunSchema = createInsertSchema(scrapeRuns).omit({ id: true });
+
+// Numeric fundamentals that can be used as filter/sort keys
+export const fundamentalMetricKeys = [
+  "price",
+  "pl",
+  "pvp",
+  "psr",
+  "divYield",
+  "pAtivo",
+  "pCapGiro",
+  "pEbit",
+  "pAtivCircLiq",
+  "ebitEv",
+  "evEbitda",
+  "ebitMargin",
+  "netMargin",
+  "currentLiquidity",
+  "liquidity",
+  "roic",
+  "roe",
+  "netWorth",
+  "grossDebtEquity",
+  "revenueGrowth5y",
+  "marketCap",
+  "firmValue",
+  "lpa",
+  "vpa",
+  "grossMargin",
+  "assetTurnover",
+  "netDebt",
+] as const;
 
 // === TYPES ===
 export type Stock = typeof stocks.$inferSelect;
 export type Fundamental = typeof fundamentals.$inferSelect;
 export type InsertStock = z.infer<typeof insertStockSchema>;
 export type InsertFundamental = z.infer<typeof insertFundamentalSchema>;
+export type Price = typeof prices.$inferSelect;
+export type InsertPrice = z.infer<typeof insertPriceSchema>;
+export type ScrapeRun = typeof scrapeRuns.$inferSelect;
+export type InsertScrapeRun = typeof scrapeRuns.$inferInsert;
+export type ScrapeTrigger = 'manual' | 'schedule';
+export type ScrapeRunStatus = 'running' | 'completed' | 'failed' | 'skipped';
+export type FundamentalMetricKey = typeof fundamentalMetricKeys[number];
 
 // Request Types
+export type MetricBounds = Partial<Record<FundamentalMetricKey, number>>;
+
 export type FilterRequest = {
+  search?: string;
   maxPl?: number;
   minRoe?: number;
   maxPvp?: number;
   minDivYield?: number;
+  minLiquidity?: number;
   excludeStateOwned?: boolean;
+  sector?: string[];    // Any of these sectors
+  subsector?: string[]; // Any of these subsectors
+  min?: MetricBounds; // Generic lower bounds on any latest fundamental metric
+  max?: MetricBounds; // Generic upper bounds on any latest fundamental metric
+  sortBy?: 'magic_formula' | 'graham_upside' | 'ticker';
 };
 
 // Response Types
+export type GrahamValuation = {
+  lpa: number;
+  vpa: number;
+  fairValue: number;      // Graham number, √(22.5 × LPA × VPA)
+  marginOfSafety: number; // % of the fair value the price is below it (negative above)
+  upside: number;         // % the price would have to rise to reach the fair value
+};
+
+export type BazinValuation = {
+  averageDividend: number; // Average yearly dividend per share
+  years: number;           // Calendar years the average covers
+  ceilingPrice: number;    // Highest price at which the average dividend still yields the required rate
+  upside: number;          // % between the price and the ceiling price
+};
+
+// One snapshot's price and trailing 12-month yield, enough to recover the dividend per share
+export type DividendSnapshot = Pick<Fundamental, 'ticker' | 'date' | 'price' | 'divYield'>;
+
+export type MagicFormulaScore = {
+  roicRank: number;     // 1 for the highest ROIC in the universe; ties share a rank
+  ebitEvRank: number;   // 1 for the highest EBIT/EV
+  position: number;     // Place in the final ranking, ties in the sum broken
+  universeSize: number; // Stocks ranked together
+  percentile: number;   // % of the rest of the universe ranked below it; 100 for the top stock
+};
+
+export type PiotroskiCriterion =
+  | 'roa'                  // Positive return on assets
+  | 'operatingCashFlow'    // Positive operating cash flow
+  | 'roaChange'            // Higher return on assets than a year earlier
+  | 'accruals'             // Operating cash flow above net income
+  | 'leverageChange'       // Lower debt / assets
+  | 'currentRatioChange'   // Higher current ratio
+  | 'noDilution'           // No new shares issued
+  | 'grossMarginChange'    // Higher gross margin
+  | 'assetTurnoverChange'; // Higher asset turnover
+
+// fundamentus publishes no cash flow statement, so operatingCashFlow and accruals
+// are never evaluated and a score cannot go above 7
+export const piotroskiMaxScore = 7;
+
+export type PiotroskiScore = {
+  score: number;              // Criteria passed, out of piotroskiMaxScore
+  evaluated: number;          // Criteria the stored snapshots could judge
+  date: string;               // Snapshot scored
+  comparedTo: string | null;  // Snapshot a year or more earlier it is compared with
+  criteria: Record<PiotroskiCriterion, boolean | null>; // null when the data is missing
+};
+
 export type StockWithLatestFundamental = Stock & {
   latest: Fundamental | null;
+  graham?: GrahamValuation | null; // Set by getStocks
+  bazin?: BazinValuation | null;   // Set by the Bazin strategy endpoint
+  fScore?: PiotroskiScore | null;  // Set by the stock detail endpoint, and by the list when filtering by minFScore
+  magicRank?: number | null;       // Sum of the Magic Formula ranks, set when ranking by it
+  magicFormula?: MagicFormulaScore | null; // How `magicRank` was obtained; null outside the universe
+};
+
+export type ScrapeJobPhase = 'queued' | 'fetching' | 'ingesting' | 'completed' | 'failed';
+
+export type ScrapeJob = {
+  id: string;
+  runId: number | null; // scrape_runs row recording this job
+  trigger: ScrapeTrigger;
+  phase: ScrapeJobPhase;
+  total: number;      // Tickers found on resultado.php (0 until fetched)
+  processed: number;  // Tickers ingested so far (committed only when the whole run succeeds)
+  errors: { ticker: string; message: string }[];
+  error: string | null; // Fatal error that failed the whole run
+  unexpectedHeaders?: string[]; // Set when the resultado.php layout changed
+  missingHeaders?: string[];
+  result: {
+    scraped: number;
+    stocksCreated: number;
+    stocksUpdated: number;
+    fundamentalsCreated: number;
+    fundamentalsUpdated: number;
+  } | null;
+  startedAt: string;
+  finishedAt: string | null;
+  timings: { fetchMs: number | null; ingestMs: number | null };
+};
+
+export type EnrichJobPhase = 'queued' | 'running' | 'completed' | 'failed';
+
+export type EnrichJob = {
+  id: string;
+  phase: EnrichJobPhase;
+  maxAgeDays: number;  // Classifications newer than this were skipped
+  total: number;       // Tickers queued for detalhes.php
+  processed: number;   // Tickers fetched so far, including failed ones
+  errors: { ticker: string; message: string }[];
+  error: string | null; // Fatal error that failed the whole run
+  startedAt: string;
+  finishedAt: string | null;
+};
+
+export type ScheduledRun = {
+  trigger: ScrapeTrigger;
+  at: string;
+  jobId: string | null;    // Scrape job started by this run
+  skipped: string | null;  // Why a run did not scrape (weekend, B3 holiday, scrape already running)
+};
+
+export type ScheduleStatus = {
+  enabled: boolean; // SCRAPE_CRON is configured
+  paused: boolean;
+  cron: string | null;
+  timezone: string;
+  skipNonTradingDays: boolean;
+  nextRun: string | null;
+  runs: (ScheduledRun & { phase: ScrapeJobPhase | null })[];
+};
+
+export type SectorSummary = {
+  sector: string;
+  count: number;          // Stocks with a snapshot
+  subsectors: string[];
+  // Medians over the latest snapshots, ignoring missing values
+  medians: { pl: number | null; pvp: number | null; roe: number | null; divYield: number | null; ebitEv: number | null };
+};
+
+// Where a stock's metric sits among its sector peers
+export type PeerComparison = {
+  percentile: number;     // 0-100, share of peers with a lower value
+  zScore: number | null;  // null when the peers all share the same value
+};
+
+export type SectorStock = StockWithLatestFundamental & {
+  relative: Record<keyof SectorSummary['medians'], PeerComparison | null>;
+};
+
+export type SectorDetail = {
+  summary: SectorSummary;
+  stocks: SectorStock[];
+};
+
+// Stock page: every stored snapshot, oldest first, and the valuations computed from them
+export type StockWithHistory = {
+  stock: Stock;
+  history: Fundamental[];
+  bazin: BazinValuation | null;
+  fScore: PiotroskiScore | null;
+};
+
+export type PeerMetric = 'pl' | 'pvp' | 'roe' | 'roic' | 'divYield';
+
+export type StockPeers = {
+  groupBy: 'subsector' | 'sector'; // Subsector when the stock has one
+  group: string;
+  peers: StockWithLatestFundamental[]; // Includes the stock itself once it has a snapshot
+  // 1 is the cheapest P/L and P/VP or the highest ROE, ROIC and yield
+  ranks: Record<PeerMetric, { rank: number; of: number } | null>;
+};
+
+export type MagicFormulaOptions = {
+  excludeFinancials?: boolean;   // Banks and insurers, for which EV/EBIT is meaningless
+  excludeSectors?: string[];
+  minLiquidity?: number;         // Average daily volume in BRL
+  minMarketCap?: number;         // BRL; without a detail scrape, net worth × P/VP stands in for the market cap
+  negativeEbit?: 'exclude' | 'rank'; // 'rank' keeps loss-making companies, at the bottom
+  dropNulls?: boolean;           // Leave out stocks missing ROIC or EBIT/EV instead of ranking them last
+  oneClassPerCompany?: boolean;  // Keep only the most traded share class (PETR3 / PETR4)
 };
 
 export type MagicFormulaRanked = StockWithLatestFundamental & {
-  magicFormulaRank: number;
+  magicRank: number;
+  magicFormula: MagicFormulaScore;
 };